@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBase58, encodeBase58 } from './base58';
+import { InvalidRequestError } from './errors';
+
+const bytes = (hex: string) => Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16));
+
+describe('Base58', () => {
+  const vectors: Array<[Uint8Array, string]> = [
+    [new Uint8Array(), ''],
+    [new TextEncoder().encode('Hello World!'), '2NEpo7TZRRrLZSi2U'],
+    [bytes('00000000287fb4cd'), '1111233QC4'],
+    [bytes('0000'), '11'],
+    [bytes('ff'), '5Q'],
+    [bytes('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a'), 'FVen3X669xLzsi6N2V91DoiyzHzg1uAgqiT8jZ9nS96Z'],
+  ];
+
+  it('should encode known vectors', () => {
+    for (const [input, expected] of vectors) {
+      expect(encodeBase58(input)).toBe(expected);
+    }
+  });
+
+  it('should decode known vectors', () => {
+    for (const [expected, input] of vectors) {
+      expect(decodeBase58(input)).toEqual(expected);
+    }
+  });
+
+  it('should round-trip random bytes', () => {
+    for (let length = 1; length <= 64; length += 7) {
+      const input = Uint8Array.from({ length }, (_, i) => (i * 97 + length) % 256);
+      expect(decodeBase58(encodeBase58(input))).toEqual(input);
+    }
+  });
+
+  it('should reject characters outside the alphabet', () => {
+    expect(() => decodeBase58('abc0')).toThrow(InvalidRequestError);
+    expect(() => decodeBase58('abcO')).toThrow("Invalid base58 character 'O' at position 3");
+  });
+});
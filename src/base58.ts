@@ -0,0 +1,75 @@
+/**
+ * PeerCat SDK Base58 Encoding
+ *
+ * Bitcoin/Solana alphabet, as used for wallet public keys and signatures.
+ */
+
+import { InvalidRequestError } from './errors';
+
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const ALPHABET_INDEX = new Map([...ALPHABET].map((char, i) => [char, i]));
+
+/**
+ * Encode bytes as base58
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  // Leading zero bytes map one-to-one to leading '1's
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) {
+    zeros++;
+  }
+
+  // Repeated division of the big-endian number by 58, digits least significant first
+  const digits: number[] = [];
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i]!;
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j]! << 8;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  return '1'.repeat(zeros) + digits.reverse().map(d => ALPHABET[d]).join('');
+}
+
+/**
+ * Decode a base58 string
+ *
+ * @throws InvalidRequestError if the string contains characters outside the alphabet
+ */
+export function decodeBase58(value: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < value.length && value[zeros] === '1') {
+    zeros++;
+  }
+
+  // Bytes least significant first
+  const bytes: number[] = [];
+  for (let i = zeros; i < value.length; i++) {
+    const digit = ALPHABET_INDEX.get(value[i]!);
+    if (digit === undefined) {
+      throw new InvalidRequestError(`Invalid base58 character '${value[i]}' at position ${i}`, 'invalid_base58');
+    }
+
+    let carry = digit;
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j]! * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  const result = new Uint8Array(zeros + bytes.length);
+  result.set(bytes.reverse(), zeros);
+  return result;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Runs the package's build script into a temporary directory, without type
+ * declarations, and returns the output directory
+ */
+async function build(): Promise<string> {
+  const root = join(__dirname, '..');
+  const outDir = await mkdtemp(join(tmpdir(), 'peercat-bundle-'));
+  const pkg = JSON.parse(await readFile(join(root, 'package.json'), 'utf8')) as { scripts: { build: string } };
+  const args = pkg.scripts.build.split(' ').slice(1).filter(arg => arg !== '--dts');
+
+  execFileSync(join(root, 'node_modules', '.bin', 'tsup'), [...args, '--out-dir', outDir, '--silent'], {
+    cwd: root,
+    stdio: 'pipe',
+  });
+  return outDir;
+}
+
+describe('Bundle', () => {
+  let outDir: string;
+  let load: NodeRequire;
+
+  beforeAll(async () => {
+    outDir = await build();
+    load = createRequire(join(outDir, 'index.js'));
+  }, 120000);
+
+  afterAll(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it('should let the CommonJS emulator recognize errors from the main entry', async () => {
+    const sdk = load('./index.js');
+    const { PeerCatEmulator } = load('./emulator.js');
+
+    const emulator = new PeerCatEmulator();
+    const baseUrl = await emulator.start();
+    try {
+      emulator.fake.failNext(new sdk.RateLimitError('Slow down', 'rate_limit_exceeded'));
+      const client = new sdk.PeerCat({ apiKey: 'pcat_test_ci', baseUrl, maxRetries: 0 });
+
+      await expect(client.getBalance()).rejects.toBeInstanceOf(sdk.RateLimitError);
+    } finally {
+      await emulator.stop();
+    }
+  });
+
+  it('should not retry CassetteErrors from the CommonJS cassette entry', async () => {
+    const sdk = load('./index.js');
+    const { Cassette } = load('./cassette.js');
+
+    const cassette = new Cassette({ path: join(outDir, 'missing.json'), mode: 'replay' });
+    let calls = 0;
+    const client = new sdk.PeerCat({
+      apiKey: 'pcat_test_ci',
+      maxRetries: 3,
+      fetch: (input: string, init?: RequestInit) => {
+        calls++;
+        return cassette.fetch(input, init);
+      },
+    });
+
+    await expect(client.getBalance()).rejects.toBeInstanceOf(sdk.CassetteError);
+    expect(calls).toBe(1);
+  });
+});
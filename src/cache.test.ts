@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PeerCat } from './client';
+import { ResponseCache, type CacheEntry, type CacheStore } from './cache';
+import { RequestAbortedError } from './errors';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+const modelsResponse = (id: string) => createMockResponse({ models: [{ id }] });
+
+const pricesResponse = (solPrice: number, updatedAt = new Date().toISOString()) => createMockResponse({
+  solPrice,
+  updatedAt,
+  slippageTolerance: 0.05,
+  treasury: 'treasury',
+  models: [],
+});
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should serve cached models until the TTL expires', async () => {
+    mockFetch
+      .mockResolvedValueOnce(modelsResponse('model-1'))
+      .mockResolvedValueOnce(modelsResponse('model-2'));
+
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache: new ResponseCache({ ttl: 1000 }) });
+
+    expect(await client.getModels()).toEqual([{ id: 'model-1' }]);
+    expect(await client.getModels()).toEqual([{ id: 'model-1' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+    expect(await client.getModels()).toEqual([{ id: 'model-2' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use per-endpoint TTLs', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.endsWith('/v1/models') ? modelsResponse('model-1') : pricesResponse(150)
+    );
+
+    const client = new PeerCat({
+      apiKey: 'test',
+      fetch: mockFetch,
+      cache: new ResponseCache({ ttl: { models: 10000, prices: 1000 } }),
+    });
+
+    await client.getModels();
+    await client.getPrices();
+    vi.advanceTimersByTime(1000);
+    await client.getModels();
+    await client.getPrices();
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share one request between concurrent misses', async () => {
+    mockFetch.mockResolvedValueOnce(modelsResponse('model-1'));
+
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache: new ResponseCache() });
+    const results = await Promise.all([client.getModels(), client.getModels(), client.getModels()]);
+
+    expect(results).toEqual([[{ id: 'model-1' }], [{ id: 'model-1' }], [{ id: 'model-1' }]]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let callers change the cached response', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse({ models: [{ id: 'model-b' }, { id: 'model-a' }] }))
+      .mockResolvedValueOnce(pricesResponse(150));
+
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache: new ResponseCache() });
+    const [first, concurrent] = await Promise.all([client.getModels(), client.getModels()]);
+    first.sort((a, b) => a.id.localeCompare(b.id));
+    concurrent[0]!.name = 'Renamed';
+    (await client.getPrices()).solPrice = 1;
+
+    expect(await client.getModels()).toEqual([{ id: 'model-b' }, { id: 'model-a' }]);
+    expect((await client.getPrices()).solPrice).toBe(150);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let a caller abort only its own wait on a shared load', async () => {
+    let respond!: () => void;
+    const loaded = new Promise<void>(resolve => {
+      respond = resolve;
+    });
+    mockFetch.mockImplementationOnce(async () => {
+      await loaded;
+      return modelsResponse('model-1');
+    });
+    const controller = new AbortController();
+
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache: new ResponseCache() });
+    const first = client.getModels({ signal: controller.signal });
+    const second = client.getModels();
+
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+    respond();
+
+    await expect(first).rejects.toThrow(RequestAbortedError);
+    await expect(second).resolves.toEqual([{ id: 'model-1' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not tie a background refresh to the caller that started it', async () => {
+    let respond!: () => void;
+    const refreshed = new Promise<void>(resolve => {
+      respond = resolve;
+    });
+    mockFetch
+      .mockResolvedValueOnce(modelsResponse('model-1'))
+      .mockImplementationOnce(async (_url: string, init: { signal: AbortSignal }) => {
+        // Like fetch, give up when the request is aborted
+        await Promise.race([refreshed, new Promise((_, reject) => {
+          init.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })]);
+        return modelsResponse('model-2');
+      });
+
+    const client = new PeerCat({
+      apiKey: 'test',
+      fetch: mockFetch,
+      cache: new ResponseCache({ ttl: 1000, staleWhileRevalidate: 5000 }),
+    });
+
+    await client.getModels();
+    vi.advanceTimersByTime(2000);
+
+    const controller = new AbortController();
+    expect(await client.getModels({ signal: controller.signal })).toEqual([{ id: 'model-1' }]);
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    controller.abort();
+    respond();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await client.getModels()).toEqual([{ id: 'model-2' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve stale data while revalidating in the background', async () => {
+    mockFetch
+      .mockResolvedValueOnce(modelsResponse('model-1'))
+      .mockResolvedValueOnce(modelsResponse('model-2'));
+
+    const client = new PeerCat({
+      apiKey: 'test',
+      fetch: mockFetch,
+      cache: new ResponseCache({ ttl: 1000, staleWhileRevalidate: 5000 }),
+    });
+
+    await client.getModels();
+    vi.advanceTimersByTime(2000);
+
+    expect(await client.getModels()).toEqual([{ id: 'model-1' }]);
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await client.getModels()).toEqual([{ id: 'model-2' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reload once the stale window has passed', async () => {
+    mockFetch
+      .mockResolvedValueOnce(modelsResponse('model-1'))
+      .mockResolvedValueOnce(modelsResponse('model-2'));
+
+    const client = new PeerCat({
+      apiKey: 'test',
+      fetch: mockFetch,
+      cache: new ResponseCache({ ttl: 1000, staleWhileRevalidate: 1000 }),
+    });
+
+    await client.getModels();
+    vi.advanceTimersByTime(2000);
+
+    expect(await client.getModels()).toEqual([{ id: 'model-2' }]);
+  });
+
+  it('should never serve prices older than maxPriceAge', async () => {
+    const quotedAt = new Date(Date.now() - 50000).toISOString();
+    mockFetch
+      .mockResolvedValueOnce(pricesResponse(150, quotedAt))
+      .mockResolvedValueOnce(pricesResponse(155));
+
+    const client = new PeerCat({
+      apiKey: 'test',
+      fetch: mockFetch,
+      cache: new ResponseCache({ ttl: 60000, staleWhileRevalidate: 60000, maxPriceAge: 60000 }),
+    });
+
+    expect((await client.getPrices()).solPrice).toBe(150);
+    vi.advanceTimersByTime(9999);
+    expect((await client.getPrices()).solPrice).toBe(150);
+
+    // The quote is now 60s old: neither fresh nor servable as stale
+    vi.advanceTimersByTime(1);
+    expect((await client.getPrices()).solPrice).toBe(155);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should support manual invalidation', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.endsWith('/v1/models') ? modelsResponse('model-1') : pricesResponse(150)
+    );
+
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache: new ResponseCache() });
+    await client.getModels();
+    await client.getPrices();
+
+    await client.invalidateCache('models');
+    await client.getModels();
+    await client.getPrices();
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+
+    await client.invalidateCache();
+    await client.getModels();
+    await client.getPrices();
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+  });
+
+  it('should not cache failed requests', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse({
+        error: { type: 'invalid_request_error', code: 'bad', message: 'Bad', param: null },
+      }, { ok: false, status: 400 }))
+      .mockResolvedValueOnce(modelsResponse('model-1'));
+
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache: new ResponseCache() });
+
+    await expect(client.getModels()).rejects.toThrow('Bad');
+    expect(await client.getModels()).toEqual([{ id: 'model-1' }]);
+  });
+
+  it('should bypass the cache for withResponse()', async () => {
+    mockFetch.mockResolvedValue(modelsResponse('model-1'));
+
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache: new ResponseCache() });
+    await client.getModels();
+    const { response } = await client.withResponse().getModels();
+
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use a custom store', async () => {
+    const entries = new Map<string, CacheEntry>();
+    const store: CacheStore = {
+      get: vi.fn(async (key: string) => entries.get(key)),
+      set: vi.fn(async (key: string, entry: CacheEntry) => { entries.set(key, entry); }),
+      delete: vi.fn(async (key: string) => { entries.delete(key); }),
+    };
+    mockFetch.mockResolvedValueOnce(modelsResponse('model-1'));
+
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache: new ResponseCache({ store }) });
+    await client.getModels();
+    await client.getModels();
+
+    expect(store.set).toHaveBeenCalledWith('https://api.peerc.at/v1/models', expect.objectContaining({
+      value: { models: [{ id: 'model-1' }] },
+      expiresAt: Date.now() + 60000,
+    }));
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * PeerCat SDK Response Cache
+ */
+
+/**
+ * Read-mostly endpoints the client can cache
+ */
+export type CachedEndpoint = 'models' | 'prices';
+
+/**
+ * Cached response with its freshness window
+ */
+export interface CacheEntry<T = unknown> {
+  /** Cached response body */
+  value: T;
+  /** Unix timestamp (ms) when the value was fetched */
+  storedAt: number;
+  /** Unix timestamp (ms) until which the value is served without revalidation */
+  expiresAt: number;
+  /** Unix timestamp (ms) until which the stale value is served while revalidating */
+  staleUntil: number;
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process cache store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export interface ResponseCacheOptions {
+  /** Where entries are kept (default: MemoryCacheStore) */
+  store?: CacheStore;
+  /** Time in ms a response stays fresh, overall or per endpoint (default: 60000) */
+  ttl?: number | Partial<Record<CachedEndpoint, number>>;
+  /** Time in ms past the TTL during which a stale response is served while it is refreshed in the background (default: 0) */
+  staleWhileRevalidate?: number;
+  /** Never serve cached prices whose `updatedAt` is older than this many ms (default: no limit) */
+  maxPriceAge?: number;
+}
+
+const DEFAULT_TTL = 60000;
+
+/**
+ * TTL cache with stale-while-revalidate for `getModels()` and `getPrices()`
+ *
+ * Concurrent misses for the same key share one request. Every caller gets its
+ * own copy of the response, so changing it does not change the cache.
+ *
+ * @example
+ * ```typescript
+ * const client = new PeerCat({
+ *   apiKey: 'pcat_live_xxx',
+ *   cache: new ResponseCache({
+ *     ttl: { models: 300000, prices: 30000 },
+ *     staleWhileRevalidate: 60000,
+ *     maxPriceAge: 120000,
+ *   }),
+ * });
+ * ```
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttl: number | Partial<Record<CachedEndpoint, number>>;
+  private readonly staleWhileRevalidate: number;
+  private readonly maxPriceAge?: number;
+  private readonly pending = new Map<string, Promise<unknown>>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    this.maxPriceAge = options.maxPriceAge;
+  }
+
+  /**
+   * Return the cached response for `key`, loading it when missing or expired
+   *
+   * @param key - Cache key
+   * @param endpoint - Endpoint the response comes from (selects TTL and price rules)
+   * @param load - Fetches a fresh response
+   */
+  async get<T>(key: string, endpoint: CachedEndpoint, load: () => Promise<T>): Promise<T> {
+    const entry = await this.store.get(key) as CacheEntry<T> | undefined;
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return copy(entry.value);
+    }
+
+    if (entry && now < entry.staleUntil) {
+      // Serve stale now, refresh in the background
+      this.load(key, endpoint, load).catch(() => undefined);
+      return copy(entry.value);
+    }
+
+    return copy(await this.load(key, endpoint, load));
+  }
+
+  /**
+   * Drop a cached response
+   */
+  async invalidate(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  private load<T>(key: string, endpoint: CachedEndpoint, load: () => Promise<T>): Promise<T> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight as Promise<T>;
+    }
+
+    const promise = (async () => {
+      try {
+        const value = await load();
+        await this.store.set(key, this.createEntry(endpoint, value));
+        return value;
+      } finally {
+        this.pending.delete(key);
+      }
+    })();
+
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  private createEntry<T>(endpoint: CachedEndpoint, value: T): CacheEntry<T> {
+    const storedAt = Date.now();
+    const ttl = typeof this.ttl === 'number' ? this.ttl : this.ttl[endpoint] ?? DEFAULT_TTL;
+    let expiresAt = storedAt + ttl;
+    let staleUntil = expiresAt + this.staleWhileRevalidate;
+
+    // A price quote must not outlive its maximum age, stale or not
+    if (endpoint === 'prices' && this.maxPriceAge !== undefined) {
+      const updatedAt = Date.parse((value as { updatedAt?: string }).updatedAt ?? '');
+      const validUntil = Number.isNaN(updatedAt) ? storedAt : updatedAt + this.maxPriceAge;
+      expiresAt = Math.min(expiresAt, validUntil);
+      staleUntil = Math.min(staleUntil, validUntil);
+    }
+
+    return { value, storedAt, expiresAt, staleUntil };
+  }
+}
+
+/**
+ * Deep copy of a JSON response body
+ */
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value)) as T;
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Cassette } from './cassette';
+import type { CassetteFile } from './cassette';
+import { PeerCat } from './client';
+import { CassetteError, InsufficientCreditsError } from './errors';
+
+const mockFetch = vi.fn();
+
+function jsonResponse(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+const mockBalance = {
+  credits: 10,
+  totalDeposited: 20,
+  totalSpent: 10,
+  totalWithdrawn: 0,
+  totalGenerated: 5,
+};
+
+const mockKey = {
+  id: 'key_1',
+  key: 'pcat_test_secret',
+  keyPrefix: 'pcat_test_se',
+  name: 'CI',
+  environment: 'test',
+  createdAt: '2024-01-01T00:00:00Z',
+  warning: 'Store this key securely.',
+};
+
+describe('Cassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    vi.resetAllMocks();
+    dir = await mkdtemp(join(tmpdir(), 'peercat-cassette-'));
+    path = join(dir, 'fixtures', 'cassette.json');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function readCassette(): Promise<CassetteFile> {
+    return JSON.parse(await readFile(path, 'utf8')) as CassetteFile;
+  }
+
+  describe('record', () => {
+    it('should write request/response pairs with secrets scrubbed', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockKey, 200, { 'X-Request-Id': 'req_1', 'Set-Cookie': 'session=1' }));
+      const cassette = new Cassette({ path, mode: 'record', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'pcat_test_secret', fetch: cassette.fetch });
+
+      const result = await client.createKey({ name: 'CI', message: 'Sign in', signature: 'wallet_sig', publicKey: 'pub' });
+      await cassette.save();
+
+      expect(result.key).toBe('pcat_test_secret');
+
+      const file = await readCassette();
+      expect(file.version).toBe(1);
+      expect(file.interactions).toEqual([{
+        request: {
+          method: 'POST',
+          path: '/v1/keys',
+          body: { name: 'CI', message: 'Sign in', signature: '[REDACTED]', publicKey: 'pub' },
+        },
+        response: {
+          status: 200,
+          statusText: '',
+          headers: { 'content-type': 'application/json', 'x-request-id': 'req_1' },
+          body: { ...mockKey, key: '[REDACTED]' },
+        },
+      }]);
+      expect(JSON.stringify(file)).not.toContain('pcat_test_secret');
+    });
+
+    it('should record error responses', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        error: { type: 'insufficient_credits', code: 'insufficient_credits', message: 'No credits', param: null },
+      }, 402));
+      const cassette = new Cassette({ path, mode: 'record', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'test', fetch: cassette.fetch, validateRequests: false });
+
+      await expect(client.generate({ prompt: 'A red fox' })).rejects.toThrow(InsufficientCreditsError);
+
+      expect((await readCassette()).interactions[0]!.response.status).toBe(402);
+    });
+  });
+
+  describe('replay', () => {
+    async function record(responses: Response[], run: (client: PeerCat) => Promise<unknown>): Promise<void> {
+      for (const response of responses) {
+        mockFetch.mockResolvedValueOnce(response);
+      }
+      const cassette = new Cassette({ path, mode: 'record', fetch: mockFetch });
+      await run(new PeerCat({ apiKey: 'test', fetch: cassette.fetch, validateRequests: false }));
+      await cassette.save();
+      mockFetch.mockReset();
+    }
+
+    it('should serve recorded responses without calling fetch', async () => {
+      await record([jsonResponse(mockBalance, 200, { 'X-RateLimit-Remaining': '59' })], client => client.getBalance());
+
+      const cassette = new Cassette({ path, mode: 'replay', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'other', fetch: cassette.fetch });
+
+      const { data, response } = await client.withResponse().getBalance();
+
+      expect(data).toEqual(mockBalance);
+      expect(response.rateLimit.remaining).toBe(59);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should match on body and replay repeated calls in order', async () => {
+      const first = { id: 'gen_1', imageUrl: 'a.png', ipfsHash: null, model: 'stable-diffusion-xl', mode: 'demo', usage: { creditsUsed: 0, balanceRemaining: 1 } };
+      const second = { ...first, id: 'gen_2' };
+      const other = { ...first, id: 'gen_3' };
+      await record([jsonResponse(first), jsonResponse(other), jsonResponse(second)], async client => {
+        await client.generate({ prompt: 'fox', mode: 'demo' });
+        await client.generate({ prompt: 'owl', mode: 'demo' });
+        await client.generate({ prompt: 'fox', mode: 'demo' });
+      });
+
+      const cassette = new Cassette({ path, mode: 'replay' });
+      const client = new PeerCat({ apiKey: 'test', fetch: cassette.fetch });
+
+      expect((await client.generate({ prompt: 'owl', mode: 'demo' })).id).toBe('gen_3');
+      expect((await client.generate({ prompt: 'fox', mode: 'demo' })).id).toBe('gen_1');
+      expect((await client.generate({ prompt: 'fox', mode: 'demo' })).id).toBe('gen_2');
+    });
+
+    it('should throw a clear error for unmatched requests', async () => {
+      await record([jsonResponse(mockBalance)], client => client.getBalance());
+
+      const cassette = new Cassette({ path, mode: 'replay' });
+      const client = new PeerCat({ apiKey: 'test', fetch: cassette.fetch, maxRetries: 3 });
+
+      await expect(client.getHistory()).rejects.toThrow(
+        `No recorded response for GET /v1/history in ${path}. Recorded requests: GET /v1/balance`
+      );
+
+      await client.getBalance();
+      await expect(client.getBalance()).rejects.toThrow('All 1 recordings of GET /v1/balance were already replayed');
+    });
+
+    it('should name a body mismatch', async () => {
+      path = join(dir, 'cassette.json');
+      await writeFile(path, JSON.stringify({
+        version: 1,
+        interactions: [{
+          request: { method: 'PATCH', path: '/v1/keys/key_1', body: { name: 'CI' } },
+          response: { status: 200, statusText: 'OK', headers: {}, body: { success: true } },
+        }],
+      }));
+      const cassette = new Cassette({ path, mode: 'replay' });
+      const client = new PeerCat({ apiKey: 'test', fetch: cassette.fetch });
+
+      const error = await client.updateKeyName('key_1', 'Deploys').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(CassetteError);
+      expect((error as CassetteError).code).toBe('unmatched_request');
+      expect((error as Error).message).toContain('with a different body; got {"name":"Deploys"}');
+    });
+
+    it('should report a missing cassette file', async () => {
+      const cassette = new Cassette({ path, mode: 'replay' });
+      const client = new PeerCat({ apiKey: 'test', fetch: cassette.fetch });
+
+      await expect(client.getBalance()).rejects.toMatchObject({
+        name: 'CassetteError',
+        code: 'cassette_not_found',
+      });
+    });
+  });
+
+  describe('passthrough', () => {
+    it('should call fetch without recording', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(mockBalance));
+      const cassette = new Cassette({ path, mode: 'passthrough', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'test', fetch: cassette.fetch });
+
+      await expect(client.getBalance()).resolves.toEqual(mockBalance);
+      await expect(readFile(path, 'utf8')).rejects.toThrow();
+    });
+  });
+
+  it('should take its mode from PEERCAT_CASSETTE_MODE', () => {
+    vi.stubEnv('PEERCAT_CASSETTE_MODE', 'Record');
+    expect(new Cassette({ path }).mode).toBe('record');
+
+    vi.stubEnv('PEERCAT_CASSETTE_MODE', 'bogus');
+    expect(new Cassette({ path }).mode).toBe('replay');
+  });
+});
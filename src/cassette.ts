@@ -0,0 +1,244 @@
+/**
+ * PeerCat SDK Record/Replay Cassettes
+ *
+ * Fetch wrapper that records HTTP traffic to a JSON fixture and replays it in
+ * tests. Node.js only; import it from `@peercat/sdk/cassette`.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { CassetteError } from './errors';
+import { redact } from './logger';
+import { getEnv } from './utils';
+
+/**
+ * - `record`: call the API and write every request/response pair to the cassette
+ * - `replay`: answer from the cassette; unmatched requests throw `CassetteError`
+ * - `passthrough`: call the API without recording
+ */
+export type CassetteMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * A recorded request/response pair
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    /** Path and query string, e.g. `/v1/history?limit=10` */
+    path: string;
+    /** Parsed JSON body, with secrets scrubbed */
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    /** Parsed JSON body (or raw text), with secrets scrubbed */
+    body?: unknown;
+  };
+}
+
+/**
+ * On-disk cassette format
+ */
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteOptions {
+  /** Fixture file path */
+  path: string;
+  /** Mode (default: `PEERCAT_CASSETTE_MODE` environment variable, else 'replay') */
+  mode?: CassetteMode;
+  /** Fetch used for `record` and `passthrough` (default: global fetch) */
+  fetch?: typeof globalThis.fetch;
+}
+
+const MODES: CassetteMode[] = ['record', 'replay', 'passthrough'];
+
+/** Response headers never written to a cassette */
+const SECRET_HEADERS = new Set(['set-cookie', 'authorization']);
+
+/**
+ * Record/replay fetch for `PeerCatConfig.fetch`
+ *
+ * Requests are matched on method, path (with query string) and JSON body.
+ * Each recording is served once, in order, so repeated calls replay repeated
+ * responses. API keys, session tokens and signatures are scrubbed: the
+ * `Authorization` header is never stored and secret body fields are replaced
+ * with `[REDACTED]`.
+ *
+ * @example
+ * ```typescript
+ * const cassette = new Cassette({ path: 'fixtures/generate.json' });
+ * const client = new PeerCat({ apiKey: 'pcat_test_xxx', fetch: cassette.fetch });
+ *
+ * // PEERCAT_CASSETTE_MODE=record npm test   -> hits the API, writes the fixture
+ * // npm test                                -> replays it, no network
+ * ```
+ */
+export class Cassette {
+  readonly path: string;
+  readonly mode: CassetteMode;
+
+  private readonly fetchFn: typeof globalThis.fetch;
+  private interactions: CassetteInteraction[] = [];
+  private readonly used = new Set<number>();
+  private loaded?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(options: CassetteOptions) {
+    this.path = options.path;
+    this.mode = options.mode ?? parseMode(getEnv('PEERCAT_CASSETTE_MODE')) ?? 'replay';
+    this.fetchFn = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  /**
+   * Fetch implementation to pass as `PeerCatConfig.fetch`
+   */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    switch (this.mode) {
+      case 'passthrough':
+        return this.fetchFn(input, init);
+      case 'record':
+        return this.record(input, init);
+      default:
+        return this.replay(input, init);
+    }
+  };
+
+  /**
+   * Wait until every recorded interaction has been written
+   */
+  async save(): Promise<void> {
+    await this.writing;
+  }
+
+  // ============ Internal Methods ============
+
+  private async record(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    const request = describeRequest(input, init);
+    const response = await this.fetchFn(input, init);
+
+    // Read the body once and hand back a copy: reading a clone alongside the
+    // original can leave the original unusable on some Node versions
+    const text = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!SECRET_HEADERS.has(name.toLowerCase())) {
+        headers[name] = value;
+      }
+    });
+
+    this.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        body: text ? redact(parseBody(text)) : undefined,
+      },
+    });
+
+    // Rewrite the whole file after each interaction so an interrupted run keeps what it saw
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    const contents = `${JSON.stringify(file, null, 2)}\n`;
+    this.writing = this.writing.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, contents);
+    });
+    await this.writing;
+
+    return new Response(text || null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private async replay(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+    await this.load();
+
+    if (init?.signal?.aborted) {
+      throw init.signal.reason;
+    }
+
+    const request = describeRequest(input, init);
+    const body = JSON.stringify(request.body);
+    const index = this.interactions.findIndex((interaction, i) =>
+      !this.used.has(i) &&
+      interaction.request.method === request.method &&
+      interaction.request.path === request.path &&
+      JSON.stringify(interaction.request.body) === body
+    );
+
+    const interaction = this.interactions[index];
+    if (!interaction) {
+      throw new CassetteError(this.describeMismatch(request), 'unmatched_request');
+    }
+    this.used.add(index);
+
+    const { status, statusText, headers } = interaction.response;
+    const responseBody = interaction.response.body;
+    return new Response(
+      responseBody === undefined ? null : typeof responseBody === 'string' ? responseBody : JSON.stringify(responseBody),
+      { status, statusText, headers }
+    );
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      let text: string;
+      try {
+        text = await readFile(this.path, 'utf8');
+      } catch {
+        throw new CassetteError(
+          `Cassette ${this.path} not found. Run once in 'record' mode (PEERCAT_CASSETTE_MODE=record) to create it.`,
+          'cassette_not_found'
+        );
+      }
+      this.interactions = (JSON.parse(text) as CassetteFile).interactions ?? [];
+    })();
+    return this.loaded;
+  }
+
+  private describeMismatch(request: CassetteInteraction['request']): string {
+    const target = `${request.method} ${request.path}`;
+    const samePath = this.interactions.filter(
+      i => i.request.method === request.method && i.request.path === request.path
+    );
+
+    let reason: string;
+    if (samePath.length === 0) {
+      const recorded = [...new Set(this.interactions.map(i => `${i.request.method} ${i.request.path}`))];
+      reason = recorded.length > 0 ? `Recorded requests: ${recorded.join(', ')}` : 'The cassette is empty';
+    } else if (samePath.every(i => JSON.stringify(i.request.body) !== JSON.stringify(request.body))) {
+      reason = `Recorded ${target} with a different body; got ${JSON.stringify(request.body)}`;
+    } else {
+      reason = `All ${samePath.length} recordings of ${target} were already replayed`;
+    }
+
+    return `No recorded response for ${target} in ${this.path}. ${reason}. Re-record with PEERCAT_CASSETTE_MODE=record.`;
+  }
+}
+
+function parseMode(value: string | undefined): CassetteMode | undefined {
+  return MODES.find(mode => mode === value?.trim().toLowerCase());
+}
+
+function describeRequest(input: string | URL | Request, init?: RequestInit): CassetteInteraction['request'] {
+  const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+  const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const body = typeof init?.body === 'string' ? redact(parseBody(init.body)) : undefined;
+
+  return { method, path: url.pathname + url.search, ...(body === undefined ? {} : { body }) };
+}
+
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
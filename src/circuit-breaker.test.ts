@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PeerCat } from './client';
+import { CircuitBreaker } from './circuit-breaker';
+import {
+  CircuitOpenError,
+  InvalidRequestError,
+  NetworkError,
+  PeerCatError,
+  RateLimitError,
+  TimeoutError,
+} from './errors';
+import { KeyPool } from './key-pool';
+import { DefaultRetryPolicy } from './retry';
+import { RateLimiter } from './rate-limiter';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+const badGateway = () => createMockResponse({
+  error: { type: 'api_error', code: 'bad_gateway', message: 'Bad gateway', param: null },
+}, { ok: false, status: 502 });
+
+const serverError = () => new PeerCatError('Service unavailable', 'api_error', 'http_503', null, 503);
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('state transitions', () => {
+    it('should open after consecutive failures', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 3 });
+
+      breaker.recordFailure(serverError());
+      breaker.recordFailure(new NetworkError('down'));
+      expect(breaker.state).toBe('closed');
+
+      breaker.recordFailure(new TimeoutError());
+      expect(breaker.state).toBe('open');
+      expect(() => breaker.allowRequest()).toThrow(CircuitOpenError);
+    });
+
+    it('should reset the failure count on success', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+      breaker.recordFailure(serverError());
+      breaker.recordSuccess();
+      breaker.recordFailure(serverError());
+
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should not count client errors as failures', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+      breaker.recordFailure(new InvalidRequestError('bad', 'bad_request'));
+
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should turn half-open after the cooldown and close on success', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+      breaker.recordFailure(serverError());
+
+      vi.advanceTimersByTime(1000);
+      expect(breaker.state).toBe('half-open');
+
+      breaker.allowRequest();
+      expect(() => breaker.allowRequest()).toThrow(CircuitOpenError);
+
+      breaker.recordSuccess();
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should reopen when a trial request fails', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+      breaker.recordFailure(serverError());
+      vi.advanceTimersByTime(1000);
+
+      breaker.allowRequest();
+      breaker.recordFailure(serverError());
+
+      expect(breaker.state).toBe('open');
+      expect(breaker.stats.retryAt).toBe(Date.now() + 1000);
+    });
+
+    it('should free the trial slot when a request is cancelled', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+      breaker.recordFailure(serverError());
+      vi.advanceTimersByTime(1000);
+
+      breaker.allowRequest();
+      breaker.recordCancellation();
+
+      expect(() => breaker.allowRequest()).not.toThrow();
+    });
+
+    it('should report stats and support manual reset', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 5000 });
+      breaker.recordFailure(serverError());
+
+      expect(breaker.stats).toEqual({
+        state: 'open',
+        consecutiveFailures: 1,
+        openedAt: Date.now(),
+        retryAt: Date.now() + 5000,
+      });
+
+      breaker.reset();
+      expect(breaker.stats).toEqual({ state: 'closed', consecutiveFailures: 0 });
+    });
+  });
+
+  describe('client integration', () => {
+    it('should fail fast once the circuit opens', async () => {
+      vi.useRealTimers();
+      mockFetch.mockResolvedValue(badGateway());
+
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 30000 });
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch: mockFetch,
+        maxRetries: 5,
+        circuitBreaker,
+        retryPolicy: new DefaultRetryPolicy({ baseDelay: 0 }),
+      });
+
+      await expect(client.getBalance()).rejects.toThrow(CircuitOpenError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await expect(client.getBalance()).rejects.toThrow(CircuitOpenError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(circuitBreaker.state).toBe('open');
+    });
+
+    it('should let a trial request through after the cooldown', async () => {
+      mockFetch
+        .mockResolvedValueOnce(badGateway())
+        .mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 0, circuitBreaker });
+
+      await expect(client.getBalance()).rejects.toThrow('Bad gateway');
+      await expect(client.getBalance()).rejects.toThrow(CircuitOpenError);
+
+      vi.advanceTimersByTime(1000);
+      await expect(client.getBalance()).resolves.toEqual({ credits: 10 });
+      expect(circuitBreaker.state).toBe('closed');
+    });
+
+    it('should free the trial slot when the deadline passes while rate limited', async () => {
+      vi.useRealTimers();
+      mockFetch
+        .mockResolvedValueOnce(badGateway())
+        .mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1 });
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch: mockFetch,
+        maxRetries: 0,
+        circuitBreaker,
+        rateLimiter: new RateLimiter({ tokenBucket: { capacity: 1, refillPerSecond: 10 } }),
+      });
+
+      await expect(client.getBalance()).rejects.toThrow('Bad gateway');
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      // The trial waits ~100ms for a token, past its deadline
+      await expect(client.getBalance({ deadline: 50 })).rejects.toThrow(TimeoutError);
+      expect(circuitBreaker.state).toBe('half-open');
+
+      await expect(client.getBalance()).resolves.toEqual({ credits: 10 });
+      expect(circuitBreaker.state).toBe('closed');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not close the circuit when every pooled key is benched', async () => {
+      vi.useRealTimers();
+      mockFetch.mockResolvedValue(createMockResponse({
+        error: { type: 'rate_limit_error', code: 'rate_limit_exceeded', message: 'Too many requests', param: null },
+      }, { ok: false, status: 429 }));
+
+      const circuitBreaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1 });
+      const client = new PeerCat({
+        apiKey: new KeyPool(['pcat_test_a']),
+        fetch: mockFetch,
+        maxRetries: 0,
+        circuitBreaker,
+      });
+
+      await expect(client.getBalance()).rejects.toThrow(RateLimitError);
+      circuitBreaker.recordFailure(serverError());
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      // The benched key fails the trial locally, without reaching the upstream
+      await expect(client.getBalance()).rejects.toThrow(RateLimitError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(circuitBreaker.state).toBe('half-open');
+      expect(() => circuitBreaker.allowRequest()).not.toThrow();
+    });
+  });
+});
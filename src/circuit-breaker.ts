@@ -0,0 +1,198 @@
+/**
+ * PeerCat SDK Circuit Breaker
+ */
+
+import { CircuitOpenError, NetworkError, PeerCatError, TimeoutError } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before allowing a trial request, in milliseconds (default: 30000) */
+  cooldown?: number;
+  /** Concurrent trial requests allowed while half-open (default: 1) */
+  halfOpenMaxRequests?: number;
+  /** Successful trial requests needed to close the circuit again (default: 1) */
+  successThreshold?: number;
+  /** Which errors count as upstream failures (default: network errors, timeouts and 5xx) */
+  isFailure?: (error: Error) => boolean;
+}
+
+/**
+ * Circuit breaker status, e.g. for health checks
+ */
+export interface CircuitBreakerStats {
+  /** Current state */
+  state: CircuitState;
+  /** Consecutive failures recorded while closed */
+  consecutiveFailures: number;
+  /** Unix timestamp (ms) when the circuit last opened */
+  openedAt?: number;
+  /** Unix timestamp (ms) when a trial request will be allowed (while open) */
+  retryAt?: number;
+}
+
+/**
+ * Default failure classification: the upstream is unreachable or erroring
+ */
+function isUpstreamFailure(error: Error): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  return error instanceof PeerCatError && error.status >= 500;
+}
+
+/**
+ * Fails fast while the API is persistently unavailable
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and every
+ * request is rejected with a {@link CircuitOpenError} without being sent.
+ * After `cooldown` the circuit turns half-open and lets trial requests through;
+ * a success closes it, a failure opens it again.
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker = new CircuitBreaker({ failureThreshold: 3, cooldown: 10000 });
+ * const client = new PeerCat({ apiKey: 'pcat_live_xxx', circuitBreaker });
+ *
+ * app.get('/health', (req, res) => res.json({ peercat: circuitBreaker.state }));
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldown: number;
+  private readonly halfOpenMaxRequests: number;
+  private readonly successThreshold: number;
+  private readonly isFailure: (error: Error) => boolean;
+  private currentState: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private halfOpenSuccesses = 0;
+  private halfOpenInFlight = 0;
+  private openedAt?: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldown = options.cooldown ?? 30000;
+    this.halfOpenMaxRequests = options.halfOpenMaxRequests ?? 1;
+    this.successThreshold = options.successThreshold ?? 1;
+    this.isFailure = options.isFailure ?? isUpstreamFailure;
+  }
+
+  /**
+   * Current state (an open circuit turns half-open once the cooldown elapses)
+   */
+  get state(): CircuitState {
+    if (
+      this.currentState === 'open' &&
+      this.openedAt !== undefined &&
+      Date.now() - this.openedAt >= this.cooldown
+    ) {
+      this.transition('half-open');
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Current status
+   */
+  get stats(): CircuitBreakerStats {
+    const state = this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      retryAt: state === 'open' && this.openedAt !== undefined
+        ? this.openedAt + this.cooldown
+        : undefined,
+    };
+  }
+
+  /**
+   * Claim permission to send a request
+   *
+   * @throws CircuitOpenError if the circuit is open or all trial slots are taken
+   */
+  allowRequest(): void {
+    const state = this.state;
+
+    if (state === 'open') {
+      throw new CircuitOpenError(
+        'Circuit breaker is open after repeated upstream failures',
+        this.stats.retryAt
+      );
+    }
+
+    if (state === 'half-open') {
+      if (this.halfOpenInFlight >= this.halfOpenMaxRequests) {
+        throw new CircuitOpenError('Circuit breaker is half-open and waiting on trial requests');
+      }
+      this.halfOpenInFlight++;
+    }
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(): void {
+    if (this.currentState === 'half-open') {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.successThreshold) {
+        this.transition('closed');
+      }
+      return;
+    }
+
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Record a failed request; errors that are not upstream failures count as successes
+   */
+  recordFailure(error: Error): void {
+    if (!this.isFailure(error)) {
+      this.recordSuccess();
+      return;
+    }
+
+    if (this.currentState === 'half-open') {
+      this.transition('open');
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.currentState === 'closed' && this.consecutiveFailures >= this.failureThreshold) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Release a request that ended without an outcome (e.g. aborted by the caller)
+   */
+  recordCancellation(): void {
+    if (this.currentState === 'half-open') {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+    }
+  }
+
+  /**
+   * Force the circuit closed
+   */
+  reset(): void {
+    this.transition('closed');
+  }
+
+  private transition(state: CircuitState): void {
+    this.currentState = state;
+    this.halfOpenInFlight = 0;
+    this.halfOpenSuccesses = 0;
+
+    if (state === 'open') {
+      this.openedAt = Date.now();
+    } else if (state === 'closed') {
+      this.consecutiveFailures = 0;
+      this.openedAt = undefined;
+    }
+  }
+}
@@ -7,7 +7,9 @@ import {
   RateLimitError,
   NetworkError,
   TimeoutError,
+  RequestAbortedError,
 } from './errors';
+import { DefaultRetryPolicy } from './retry';
 
 // Mock fetch
 const mockFetch = vi.fn();
@@ -72,7 +74,7 @@ describe('PeerCat', () => {
 
       mockFetch.mockResolvedValueOnce(createMockResponse(mockResult));
 
-      const client = new PeerCat({ apiKey: 'test_key', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'test_key', fetch: mockFetch, validateRequests: false });
       const result = await client.generate({ prompt: 'test prompt' });
 
       expect(result).toEqual(mockResult);
@@ -96,7 +98,7 @@ describe('PeerCat', () => {
         usage: { creditsUsed: 0 },
       }));
 
-      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateRequests: false });
       const result = await client.generate({ prompt: 'test', mode: 'demo' });
 
       expect(result.mode).toBe('demo');
@@ -199,7 +201,7 @@ describe('PeerCat', () => {
         },
       }, { ok: false, status: 402 }));
 
-      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateRequests: false });
 
       await expect(client.generate({ prompt: 'test' })).rejects.toThrow(
         InsufficientCreditsError
@@ -308,6 +310,157 @@ describe('PeerCat', () => {
     });
   });
 
+  describe('request options', () => {
+    it('should send per-call headers', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      await client.getBalance({ headers: { 'X-Request-Source': 'checkout' } });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.peerc.at/v1/balance',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer test',
+            'X-Request-Source': 'checkout',
+          }),
+        })
+      );
+    });
+
+    it('should override maxRetries per call', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({
+        error: { type: 'server_error', code: 'internal_error', message: 'Internal error', param: null },
+      }, { ok: false, status: 500 }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 3 });
+
+      await expect(client.getBalance({ maxRetries: 0 })).rejects.toThrow('Internal error');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should override timeout per call', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 0 });
+
+      await expect(client.getBalance({ timeout: 20 })).rejects.toThrow(TimeoutError);
+    });
+
+    it('should not call fetch when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+
+      await expect(
+        client.generate({ prompt: 'test' }, { signal: controller.signal })
+      ).rejects.toThrow(RequestAbortedError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should abort an in-flight request without retrying', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 3 });
+      const pending = client.getBalance({ signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(RequestAbortedError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop backoff sleeps immediately when aborted', async () => {
+      const controller = new AbortController();
+      mockFetch.mockResolvedValue(createMockResponse({
+        error: { type: 'server_error', code: 'internal_error', message: 'Internal error', param: null },
+      }, { ok: false, status: 500 }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 3 });
+      const start = Date.now();
+      const pending = client.getBalance({ signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(pending).rejects.toThrow(RequestAbortedError);
+      expect(Date.now() - start).toBeLessThan(500);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('withResponse', () => {
+    it('should return data together with response metadata', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }, {
+        headers: {
+          'X-Request-Id': 'req_abc123',
+          'X-RateLimit-Limit': '100',
+          'X-RateLimit-Remaining': '99',
+          'X-RateLimit-Reset': '1700000000',
+        },
+      }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      const { data, response } = await client.withResponse().getBalance();
+
+      expect(data).toEqual({ credits: 10 });
+      expect(response.status).toBe(200);
+      expect(response.requestId).toBe('req_abc123');
+      expect(response.rateLimit).toEqual({ limit: 100, remaining: 99, reset: 1700000000 });
+      expect(response.attempts).toBe(1);
+      expect(response.elapsedMs).toBeGreaterThanOrEqual(0);
+      expect(response.headers.get('X-Request-Id')).toBe('req_abc123');
+    });
+
+    it('should apply the same result mapping as the regular methods', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ models: [{ id: 'model-1' }] }))
+        .mockResolvedValueOnce(createMockResponse({ success: true }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      const models = await client.withResponse().getModels();
+      const revoked = await client.withResponse().revokeKey('key_123');
+
+      expect(models.data).toEqual([{ id: 'model-1' }]);
+      expect(revoked.data).toBeUndefined();
+      expect(revoked.response.status).toBe(200);
+    });
+
+    it('should count attempts across retries', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({
+          error: { type: 'server_error', code: 'internal_error', message: 'Internal error', param: null },
+        }, { ok: false, status: 500 }))
+        .mockResolvedValueOnce(createMockResponse({ id: 'gen_123' }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 1, validateRequests: false });
+      const { data, response } = await client.withResponse().generate(
+        { prompt: 'test' },
+        { headers: { 'X-Custom': '1' } }
+      );
+
+      expect(data.id).toBe('gen_123');
+      expect(response.attempts).toBe(2);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://api.peerc.at/v1/generate',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Custom': '1' }),
+        })
+      );
+    });
+  });
+
   describe('API keys', () => {
     it('should list keys', async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse({ keys: [{ id: 'key_1' }] }));
@@ -358,7 +511,7 @@ describe('PeerCat', () => {
 
       mockFetch.mockResolvedValueOnce(createMockResponse(mockSubmission));
 
-      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateRequests: false });
       const result = await client.submitPrompt({ prompt: 'test' });
 
       expect(result.submissionId).toBe('sub_123');
@@ -377,4 +530,161 @@ describe('PeerCat', () => {
       expect(result.status).toBe('completed');
     });
   });
+
+  describe('credential provider', () => {
+    const unauthorized = () => createMockResponse({
+      error: { type: 'authentication_error', code: 'invalid_api_key', message: 'Invalid API key', param: null },
+    }, { ok: false, status: 401 });
+
+    it('should consult the provider on every request', async () => {
+      const keys = ['pcat_test_one', 'pcat_test_two'];
+      const provider = vi.fn(() => keys.shift() ?? 'pcat_test_last');
+      mockFetch.mockResolvedValue(createMockResponse({ credits: 10 }));
+
+      const client = new PeerCat({ apiKey: provider, fetch: mockFetch });
+      expect(client.environment).toBeUndefined();
+
+      await client.getBalance();
+      await client.getBalance();
+
+      expect(provider).toHaveBeenCalledWith({ forceRefresh: false });
+      expect(mockFetch.mock.calls.map(call => call[1].headers.Authorization)).toEqual([
+        'Bearer pcat_test_one',
+        'Bearer pcat_test_two',
+      ]);
+      expect(client.environment).toBe('test');
+    });
+
+    it('should accept async providers', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const client = new PeerCat({ apiKey: async () => 'pcat_test_async', fetch: mockFetch });
+      await client.getBalance();
+
+      expect(mockFetch.mock.calls[0]![1].headers.Authorization).toBe('Bearer pcat_test_async');
+    });
+
+    it('should refresh the credential and retry once after an AuthenticationError', async () => {
+      let current = 'pcat_test_old';
+      const provider = vi.fn(({ forceRefresh }: { forceRefresh: boolean }) => {
+        if (forceRefresh) current = 'pcat_test_new';
+        return current;
+      });
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+      const onRetry = vi.fn();
+
+      const client = new PeerCat({ apiKey: provider, fetch: mockFetch, maxRetries: 0, hooks: { retry: onRetry } });
+      const balance = await client.getBalance();
+
+      expect(balance.credits).toBe(10);
+      expect(provider).toHaveBeenLastCalledWith({ forceRefresh: true });
+      expect(mockFetch.mock.calls[1]![1].headers.Authorization).toBe('Bearer pcat_test_new');
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ reason: 'invalid_api_key', delayMs: 0 }));
+    });
+
+    it('should give up when the refreshed credential is rejected too', async () => {
+      const provider = vi.fn(() => 'pcat_test_revoked');
+      mockFetch.mockResolvedValue(unauthorized());
+
+      const client = new PeerCat({ apiKey: provider, fetch: mockFetch, maxRetries: 3 });
+
+      await expect(client.getBalance()).rejects.toThrow(AuthenticationError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(provider).toHaveBeenCalledTimes(2);
+    });
+
+    it('should force only one refresh when later retries fail for other reasons', async () => {
+      const provider = vi.fn(() => 'pcat_test_key');
+      mockFetch
+        .mockResolvedValueOnce(unauthorized())
+        .mockResolvedValue(createMockResponse({
+          error: { type: 'api_error', code: 'http_503', message: 'Service unavailable', param: null },
+        }, { ok: false, status: 503 }));
+
+      const client = new PeerCat({
+        apiKey: provider,
+        fetch: mockFetch,
+        maxRetries: 2,
+        retryPolicy: new DefaultRetryPolicy({ baseDelay: 0 }),
+      });
+
+      await expect(client.getBalance()).rejects.toThrow('Service unavailable');
+      expect(provider.mock.calls.map(([context]) => context.forceRefresh)).toEqual([false, true, false, false]);
+    });
+
+    it('should not retry AuthenticationError for a static key', async () => {
+      mockFetch.mockResolvedValue(unauthorized());
+
+      const client = new PeerCat({ apiKey: 'pcat_test_static', fetch: mockFetch });
+
+      await expect(client.getBalance()).rejects.toThrow(AuthenticationError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share one refresh between concurrent requests', async () => {
+      let refreshes = 0;
+      const provider = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) => {
+        if (forceRefresh) {
+          refreshes++;
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        return `pcat_test_${refreshes}`;
+      });
+      mockFetch.mockImplementation(async (_url: string, init: { headers: Record<string, string> }) =>
+        init.headers.Authorization === 'Bearer pcat_test_0' ? unauthorized() : createMockResponse({ credits: 10 })
+      );
+
+      const client = new PeerCat({ apiKey: provider, fetch: mockFetch });
+      await Promise.all([client.getBalance(), client.getBalance(), client.getBalance()]);
+
+      expect(refreshes).toBe(1);
+    });
+
+    it('should surface provider failures without calling the API', async () => {
+      const client = new PeerCat({
+        apiKey: () => Promise.reject(new Error('secret manager unavailable')),
+        fetch: mockFetch,
+      });
+
+      await expect(client.getBalance()).rejects.toThrow('secret manager unavailable');
+      await expect(new PeerCat({ apiKey: () => '', fetch: mockFetch }).getBalance())
+        .rejects.toMatchObject({ code: 'missing_api_key' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting for a hung provider when aborted', async () => {
+      const controller = new AbortController();
+      const provider = vi.fn(({ forceRefresh }: { forceRefresh: boolean }) =>
+        forceRefresh ? new Promise<string>(() => {}) : 'pcat_test_old'
+      );
+      mockFetch.mockResolvedValue(unauthorized());
+
+      const client = new PeerCat({ apiKey: provider, fetch: mockFetch });
+
+      // A plain lookup
+      const hung = new PeerCat({ apiKey: () => new Promise<string>(() => {}), fetch: mockFetch });
+      await expect(hung.getBalance({ signal: AbortSignal.timeout(20) })).rejects.toThrow(RequestAbortedError);
+
+      // The forced refresh after a 401
+      const refresh = client.getBalance({ signal: controller.signal });
+      await vi.waitFor(() => expect(provider).toHaveBeenLastCalledWith({ forceRefresh: true }));
+      controller.abort();
+
+      await expect(refresh).rejects.toThrow(RequestAbortedError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let an explicit Authorization header bypass the provider', async () => {
+      const provider = vi.fn(() => 'pcat_test_provider');
+      mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const client = new PeerCat({ apiKey: provider, fetch: mockFetch });
+      await client.getBalance({ headers: { Authorization: 'Bearer pcat_test_override' } });
+
+      expect(provider).not.toHaveBeenCalled();
+      expect(mockFetch.mock.calls[0]![1].headers.Authorization).toBe('Bearer pcat_test_override');
+    });
+  });
 });
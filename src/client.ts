@@ -15,24 +15,140 @@ import type {
   CreateKeyParams,
   CreateKeyResult,
   KeysResponse,
+  CreateSessionParams,
+  SessionToken,
   SubmitPromptParams,
   PromptSubmission,
   OnChainGenerationStatus,
   ApiErrorResponse,
+  HttpMethod,
+  RequestOptions,
+  ResponseMeta,
+  ResponseValidationMode,
+  ApiResponse,
+  PeerCatClient,
+  KeyEnvironment,
+  CredentialProvider,
 } from './types';
 
+import {
+  composeMiddleware,
+  type Middleware,
+  type MiddlewareRequest,
+  type MiddlewareResponse,
+} from './middleware';
+
 import {
   PeerCatError,
+  AuthenticationError,
   NetworkError,
   TimeoutError,
+  RequestAbortedError,
   RateLimitError,
+  ResponseValidationError,
   parseRateLimitHeaders,
 } from './errors';
 
+import { findSchemaIssues, schemas, type ObjectSchema } from './schema';
+import { validatePromptRequest } from './validation';
+import { detectKeyEnvironment, readEnvConfig } from './config';
+import { KeyPool } from './key-pool';
+import { WalletSession } from './session';
+import { encodeBase58 } from './base58';
+import { buildKeyCreationMessage, signerPublicKey, type WalletSigner } from './wallet';
+import type { CachedEndpoint, ResponseCache } from './cache';
+import { InFlightRequests } from './dedupe';
+
+import {
+  EventEmitter,
+  type PeerCatEventName,
+  type PeerCatEventListener,
+} from './events';
+
+import { DefaultRetryPolicy, type RetryPolicy } from './retry';
+import type { RateLimiter } from './rate-limiter';
+import type { CircuitBreaker } from './circuit-breaker';
+import type { RequestScheduler } from './scheduler';
+import {
+  SpanKind,
+  SpanStatusCode,
+  contextWithSpan,
+  formatTraceparent,
+  recordError,
+  requestAttributes,
+  responseAttributes,
+  setAttributes,
+  type Span,
+  type Tracer,
+} from './tracing';
+import {
+  ConsoleLogger,
+  errorFields,
+  isLevelEnabled,
+  parseLogLevel,
+  redact,
+  type LogFields,
+  type LogLevel,
+  type Logger,
+} from './logger';
+import { abortable, getEnv, sleep } from './utils';
+
 const DEFAULT_BASE_URL = 'https://api.peerc.at';
 const DEFAULT_TIMEOUT = 60000;
 const DEFAULT_MAX_RETRIES = 3;
 
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+const REQUEST_ID_HEADER = 'X-Request-Id';
+const TRACEPARENT_HEADER = 'traceparent';
+
+const CACHED_PATHS: Record<CachedEndpoint, string> = {
+  models: '/v1/models',
+  prices: '/v1/price',
+};
+
+/**
+ * Request options including internal hooks used by the client itself
+ */
+interface InternalRequestOptions extends RequestOptions {
+  /** Receives the HTTP metadata of the successful attempt */
+  onResponse?: (meta: ResponseMeta) => void;
+  /** Schema the response body is checked against when `validateResponses` is on */
+  schema?: ObjectSchema;
+  /** Send without credentials, as when signing in to a wallet session */
+  anonymous?: boolean;
+}
+
+/**
+ * Client methods that call the API
+ */
+type ApiMethod = keyof PeerCatClient;
+
+/**
+ * View of the client whose methods resolve with `{ data, response }`
+ */
+export type PeerCatWithResponse = {
+  [K in ApiMethod]: (
+    ...args: Parameters<PeerCatClient[K]>
+  ) => Promise<ApiResponse<Awaited<ReturnType<PeerCatClient[K]>>>>;
+};
+
+/**
+ * Generate a random idempotency key (UUID v4)
+ */
+function generateIdempotencyKey(): string {
+  const webCrypto = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (webCrypto?.randomUUID) {
+    return webCrypto.randomUUID();
+  }
+
+  // Fallback for runtimes without crypto.randomUUID
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.floor(Math.random() * 16);
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
 /**
  * PeerCat API Client
  *
@@ -51,23 +167,90 @@ const DEFAULT_MAX_RETRIES = 3;
  * console.log(result.imageUrl);
  * ```
  */
-export class PeerCat {
-  private readonly apiKey: string;
+export class PeerCat implements PeerCatClient {
+  private apiKey?: string;
+  private keyEnvironment?: KeyEnvironment;
+  private readonly credentialProvider?: CredentialProvider;
+  private readonly keyPool?: KeyPool;
+  private readonly walletSession?: WalletSession;
+  private refreshingCredential?: Promise<string>;
+  private readonly allowLiveKeyInTests: boolean;
   private readonly baseUrl: string;
   private readonly timeout: number;
   private readonly maxRetries: number;
+  private readonly deadline?: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly scheduler?: RequestScheduler;
+  private readonly tracer?: Tracer;
+  private readonly cache?: ResponseCache;
+  private readonly dedupeRequests: boolean | string[];
+  private readonly inFlight = new InFlightRequests();
+  private readonly logger?: Logger;
+  private readonly logLevel: LogLevel;
+  private readonly redactPrompts: boolean;
+  private readonly validateResponses: ResponseValidationMode;
+  private readonly validateRequests: boolean;
+  /** Models from the last getModels() call, used for pre-flight validation */
+  private modelCatalog?: Map<string, Model>;
+  /** The catalog load made for validation, shared by concurrent calls */
+  private catalogLoad?: Promise<void>;
   private readonly fetchFn: typeof fetch;
+  private readonly middleware: Middleware[];
+  private readonly events = new EventEmitter();
+
+  constructor(config: PeerCatConfig = {}) {
+    const env = readEnvConfig(config);
+    const apiKey = config.apiKey ?? env.apiKey;
+    if (!apiKey) {
+      throw new AuthenticationError(
+        'API key is required. Pass apiKey or set PEERCAT_API_KEY.',
+        'missing_api_key',
+        'apiKey'
+      );
+    }
 
-  constructor(config: PeerCatConfig) {
-    if (!config.apiKey) {
-      throw new Error('API key is required');
+    this.allowLiveKeyInTests = config.allowLiveKeyInTests ?? false;
+    if (typeof apiKey === 'function') {
+      this.credentialProvider = apiKey;
+    } else if (apiKey instanceof KeyPool) {
+      this.keyPool = apiKey;
+      const environments = new Set(apiKey.keys.map(key => this.checkApiKey(key)));
+      this.keyEnvironment = environments.size === 1 ? [...environments][0] : undefined;
+    } else if (apiKey instanceof WalletSession) {
+      this.walletSession = apiKey;
+    } else {
+      this.useApiKey(apiKey);
     }
 
-    this.apiKey = config.apiKey;
-    this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
-    this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
-    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.baseUrl = (config.baseUrl ?? env.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.timeout = config.timeout ?? env.timeout ?? DEFAULT_TIMEOUT;
+    this.maxRetries = config.maxRetries ?? env.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.deadline = config.deadline;
+    this.retryPolicy = config.retryPolicy ?? new DefaultRetryPolicy();
+    this.rateLimiter = config.rateLimiter;
+    this.circuitBreaker = config.circuitBreaker;
+    this.scheduler = config.scheduler;
+    this.tracer = config.tracer;
+    this.cache = config.cache;
+    this.dedupeRequests = config.dedupeRequests ?? false;
+
+    // PEERCAT_LOG switches on console logging for quick debugging
+    const envLogLevel = parseLogLevel(getEnv('PEERCAT_LOG'));
+    this.logger = config.logger ?? (envLogLevel ? new ConsoleLogger() : undefined);
+    this.logLevel = config.logLevel ?? envLogLevel ?? 'info';
+    this.redactPrompts = config.redactPrompts ?? true;
+    this.validateResponses = config.validateResponses ?? 'off';
+    this.validateRequests = config.validateRequests ?? true;
     this.fetchFn = config.fetch ?? globalThis.fetch;
+    this.middleware = [...(config.middleware ?? [])];
+
+    for (const [event, listener] of Object.entries(config.hooks ?? {})) {
+      if (listener) {
+        this.events.on(event as PeerCatEventName, listener as PeerCatEventListener<PeerCatEventName>);
+      }
+    }
 
     if (!this.fetchFn) {
       throw new Error(
@@ -76,12 +259,126 @@ export class PeerCat {
     }
   }
 
+  /**
+   * Environment of the API key, from its `pcat_live_` / `pcat_test_` prefix
+   *
+   * Undefined for keys without a known prefix, for key pools mixing live and
+   * test keys, for wallet sessions, and until a credential provider has
+   * returned its first key.
+   */
+  get environment(): KeyEnvironment | undefined {
+    return this.keyEnvironment;
+  }
+
+  // ============ Middleware ============
+
+  /**
+   * Add middleware to the end of the chain (runs inside previously added middleware)
+   *
+   * @param middleware - Middleware to add
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.use(async (request, next) => {
+   *   const result = await next(request);
+   *   console.log(request.method, request.url, result.response.status);
+   *   return result;
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  // ============ Events ============
+
+  /**
+   * Listen for a lifecycle event
+   *
+   * @param event - Event name: `request`, `response`, `retry`, `error` or `rateLimited`
+   * @param listener - Called with the event payload; errors it throws are ignored
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.on('retry', ({ method, path, attempt, reason, delayMs }) => {
+   *   metrics.increment('peercat.retry', { path, reason });
+   * });
+   * ```
+   */
+  on<E extends PeerCatEventName>(event: E, listener: PeerCatEventListener<E>): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove a listener added with `on()`
+   *
+   * @param event - Event name
+   * @param listener - Listener to remove
+   * @returns The client, for chaining
+   */
+  off<E extends PeerCatEventName>(event: E, listener: PeerCatEventListener<E>): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  // ============ Response Metadata ============
+
+  /**
+   * Access the API with HTTP metadata (status, headers, rate limits, request ID,
+   * attempts and timing) alongside each result
+   *
+   * @returns A view of the client whose methods resolve with `{ data, response }`
+   *
+   * @example
+   * ```typescript
+   * const { data, response } = await client.withResponse().generate({ prompt: 'A red fox' });
+   * console.log(data.imageUrl, response.requestId, response.rateLimit.remaining);
+   * ```
+   */
+  withResponse(): PeerCatWithResponse {
+    const run = async <R>(
+      options: RequestOptions | undefined,
+      call: (options: RequestOptions) => Promise<R>
+    ): Promise<ApiResponse<R>> => {
+      let meta: ResponseMeta | undefined;
+      const internal: InternalRequestOptions = {
+        ...options,
+        onResponse: (value) => {
+          meta = value;
+        },
+      };
+      const data = await call(internal);
+      return { data, response: meta as ResponseMeta };
+    };
+
+    return {
+      generate: (params, options) => run(options, o => this.generate(params, o)),
+      getModels: (options) => run(options, o => this.getModels(o)),
+      getPrices: (options) => run(options, o => this.getPrices(o)),
+      getBalance: (options) => run(options, o => this.getBalance(o)),
+      getHistory: (params, options) => run(options, o => this.getHistory(params, o)),
+      createKey: (params, options) => run(options, o => this.createKey(params, o)),
+      listKeys: (options) => run(options, o => this.listKeys(o)),
+      revokeKey: (keyId, options) => run(options, o => this.revokeKey(keyId, o)),
+      updateKeyName: (keyId, name, options) =>
+        run(options, o => this.updateKeyName(keyId, name, o)),
+      submitPrompt: (params, options) => run(options, o => this.submitPrompt(params, o)),
+      getOnChainStatus: (txSignature, options) =>
+        run(options, o => this.getOnChainStatus(txSignature, o)),
+    };
+  }
+
   // ============ Image Generation ============
 
   /**
    * Generate an image from a text prompt
    *
    * @param params - Generation parameters
+   * @param options - Per-call request options
    * @returns Generated image result with URL and usage info
    *
    * @example
@@ -92,8 +389,15 @@ export class PeerCat {
    * });
    * ```
    */
-  async generate(params: GenerateParams): Promise<GenerateResult> {
-    return this.request<GenerateResult>('POST', '/v1/generate', params);
+  async generate(params: GenerateParams, options?: RequestOptions): Promise<GenerateResult> {
+    if (this.validateRequests) {
+      validatePromptRequest(params, await this.loadModelCatalog(options?.signal));
+    }
+
+    return this.request<GenerateResult>('POST', '/v1/generate', params, {
+      ...options,
+      schema: schemas.GenerateResponse,
+    });
   }
 
   // ============ Models & Pricing ============
@@ -101,20 +405,52 @@ export class PeerCat {
   /**
    * List available image generation models
    *
+   * @param options - Per-call request options
    * @returns Array of available models with their details
    */
-  async getModels(): Promise<Model[]> {
-    const response = await this.request<ModelsResponse>('GET', '/v1/models');
+  async getModels(options?: RequestOptions): Promise<Model[]> {
+    const response = await this.cached('models', options, (o) =>
+      this.request<ModelsResponse>('GET', CACHED_PATHS.models, undefined, {
+        ...o,
+        schema: schemas.ModelsResponse,
+      })
+    );
+
+    if (Array.isArray(response.models)) {
+      // Copies, so callers editing the returned models can't change validation
+      this.modelCatalog = new Map(response.models.map(model => [model.id, { ...model }]));
+    }
     return response.models;
   }
 
   /**
    * Get current pricing for all models
    *
+   * @param options - Per-call request options
    * @returns Price information including SOL/USD rate and model prices
    */
-  async getPrices(): Promise<PriceResponse> {
-    return this.request<PriceResponse>('GET', '/v1/price');
+  async getPrices(options?: RequestOptions): Promise<PriceResponse> {
+    return this.cached('prices', options, (o) =>
+      this.request<PriceResponse>('GET', CACHED_PATHS.prices, undefined, {
+        ...o,
+        schema: schemas.PriceResponse,
+      })
+    );
+  }
+
+  /**
+   * Drop cached `getModels()` and `getPrices()` responses
+   *
+   * @param endpoint - Endpoint to invalidate (default: all)
+   */
+  async invalidateCache(endpoint?: CachedEndpoint): Promise<void> {
+    const cache = this.cache;
+    if (!cache) {
+      return;
+    }
+
+    const endpoints = endpoint ? [endpoint] : Object.keys(CACHED_PATHS) as CachedEndpoint[];
+    await Promise.all(endpoints.map(e => cache.invalidate(this.baseUrl + CACHED_PATHS[e])));
   }
 
   // ============ Account ============
@@ -122,19 +458,24 @@ export class PeerCat {
   /**
    * Get current credit balance
    *
+   * @param options - Per-call request options
    * @returns Balance information including credits and usage stats
    */
-  async getBalance(): Promise<Balance> {
-    return this.request<Balance>('GET', '/v1/balance');
+  async getBalance(options?: RequestOptions): Promise<Balance> {
+    return this.request<Balance>('GET', '/v1/balance', undefined, {
+      ...options,
+      schema: schemas.Balance,
+    });
   }
 
   /**
    * Get usage history
    *
    * @param params - Pagination parameters
+   * @param options - Per-call request options
    * @returns Usage history with pagination info
    */
-  async getHistory(params?: HistoryParams): Promise<HistoryResponse> {
+  async getHistory(params?: HistoryParams, options?: RequestOptions): Promise<HistoryResponse> {
     const query = new URLSearchParams();
     if (params?.limit) query.set('limit', String(params.limit));
     if (params?.offset) query.set('offset', String(params.offset));
@@ -142,7 +483,10 @@ export class PeerCat {
     const queryString = query.toString();
     const path = queryString ? `/v1/history?${queryString}` : '/v1/history';
 
-    return this.request<HistoryResponse>('GET', path);
+    return this.request<HistoryResponse>('GET', path, undefined, {
+      ...options,
+      schema: schemas.HistoryResponse,
+    });
   }
 
   // ============ API Keys ============
@@ -151,28 +495,68 @@ export class PeerCat {
    * Create a new API key (requires wallet signature)
    *
    * @param params - Key creation parameters including wallet signature
+   * @param options - Per-call request options
+   * @returns New API key (only shown once!)
+   */
+  async createKey(params: CreateKeyParams, options?: RequestOptions): Promise<CreateKeyResult> {
+    return this.request<CreateKeyResult>('POST', '/v1/keys', params, {
+      ...options,
+      schema: schemas.CreateKeyResult,
+    });
+  }
+
+  /**
+   * Create a new API key, building and signing the wallet message with `signer`
+   *
+   * @param signer - Wallet signer, e.g. `Ed25519Signer.fromSecretKey()` or a wallet adapter
+   * @param params - Optional key name
+   * @param options - Per-call request options
    * @returns New API key (only shown once!)
+   *
+   * @example
+   * ```typescript
+   * const signer = Ed25519Signer.fromSecretKey(secretKey);
+   * const { key } = await client.createKeyWithSigner(signer, { name: 'CI' });
+   * ```
    */
-  async createKey(params: CreateKeyParams): Promise<CreateKeyResult> {
-    return this.request<CreateKeyResult>('POST', '/v1/keys', params);
+  async createKeyWithSigner(
+    signer: WalletSigner,
+    params: { name?: string } = {},
+    options?: RequestOptions
+  ): Promise<CreateKeyResult> {
+    const publicKey = signerPublicKey(signer);
+    const message = buildKeyCreationMessage({ publicKey });
+    const signature = await signer.signMessage(new TextEncoder().encode(message));
+
+    return this.createKey({
+      ...params,
+      message,
+      signature: encodeBase58(signature),
+      publicKey,
+    }, options);
   }
 
   /**
    * List all API keys for the authenticated wallet
    *
+   * @param options - Per-call request options
    * @returns Array of API keys (without full key values)
    */
-  async listKeys(): Promise<KeysResponse> {
-    return this.request<KeysResponse>('GET', '/v1/keys');
+  async listKeys(options?: RequestOptions): Promise<KeysResponse> {
+    return this.request<KeysResponse>('GET', '/v1/keys', undefined, {
+      ...options,
+      schema: schemas.KeysResponse,
+    });
   }
 
   /**
    * Revoke an API key
    *
    * @param keyId - ID of the key to revoke
+   * @param options - Per-call request options
    */
-  async revokeKey(keyId: string): Promise<void> {
-    await this.request<{ success: boolean }>('DELETE', `/v1/keys/${keyId}`);
+  async revokeKey(keyId: string, options?: RequestOptions): Promise<void> {
+    await this.request<{ success: boolean }>('DELETE', `/v1/keys/${keyId}`, undefined, options);
   }
 
   /**
@@ -180,9 +564,10 @@ export class PeerCat {
    *
    * @param keyId - ID of the key to update
    * @param name - New name for the key
+   * @param options - Per-call request options
    */
-  async updateKeyName(keyId: string, name: string): Promise<void> {
-    await this.request<{ success: boolean }>('PATCH', `/v1/keys/${keyId}`, { name });
+  async updateKeyName(keyId: string, name: string, options?: RequestOptions): Promise<void> {
+    await this.request<{ success: boolean }>('PATCH', `/v1/keys/${keyId}`, { name }, options);
   }
 
   // ============ On-Chain Payments ============
@@ -191,124 +576,677 @@ export class PeerCat {
    * Submit a prompt for on-chain payment
    *
    * @param params - Prompt submission parameters
+   * @param options - Per-call request options
    * @returns Payment details including treasury address and required amount
    */
-  async submitPrompt(params: SubmitPromptParams): Promise<PromptSubmission> {
-    return this.request<PromptSubmission>('POST', '/v1/prompts', params);
+  async submitPrompt(params: SubmitPromptParams, options?: RequestOptions): Promise<PromptSubmission> {
+    if (this.validateRequests) {
+      validatePromptRequest(params, await this.loadModelCatalog(options?.signal));
+    }
+
+    return this.request<PromptSubmission>('POST', '/v1/prompts', params, {
+      ...options,
+      schema: schemas.PromptSubmission,
+    });
   }
 
   /**
    * Get status of an on-chain generation by transaction signature
    *
    * @param txSignature - Solana transaction signature
+   * @param options - Per-call request options
    * @returns Generation status and result (when complete)
    */
-  async getOnChainStatus(txSignature: string): Promise<OnChainGenerationStatus> {
-    return this.request<OnChainGenerationStatus>(`GET`, `/v1/generate/${txSignature}`);
+  async getOnChainStatus(
+    txSignature: string,
+    options?: RequestOptions
+  ): Promise<OnChainGenerationStatus> {
+    return this.request<OnChainGenerationStatus>(
+      'GET',
+      `/v1/generate/${txSignature}`,
+      undefined,
+      { ...options, schema: schemas.OnChainGenerationStatus }
+    );
   }
 
   // ============ Internal Methods ============
 
+  /**
+   * Adopt an API key, refusing live keys in test runs
+   */
+  private useApiKey(apiKey: string): string {
+    if (!apiKey) {
+      throw new AuthenticationError('Credential provider returned an empty API key', 'missing_api_key', 'apiKey');
+    }
+
+    this.keyEnvironment = this.checkApiKey(apiKey);
+    this.apiKey = apiKey;
+    return apiKey;
+  }
+
+  /**
+   * Detect a key's environment, refusing live keys in test runs
+   */
+  private checkApiKey(apiKey: string): KeyEnvironment | undefined {
+    const environment = detectKeyEnvironment(apiKey);
+
+    // Keep test suites from spending real credits
+    if (environment === 'live' && getEnv('NODE_ENV') === 'test' && !this.allowLiveKeyInTests) {
+      throw new AuthenticationError(
+        'Refusing to use a live API key while NODE_ENV is test. Use a pcat_test_ key or set allowLiveKeyInTests.',
+        'live_key_in_test',
+        'apiKey'
+      );
+    }
+    return environment;
+  }
+
+  /**
+   * Get the current key from the credential provider; concurrent refreshes share one call
+   */
+  private async resolveApiKey(provider: CredentialProvider, forceRefresh: boolean, signal?: AbortSignal): Promise<string> {
+    if (!forceRefresh) {
+      return this.useApiKey(await abortable(Promise.resolve(provider({ forceRefresh })), signal));
+    }
+
+    this.refreshingCredential ??= (async () => {
+      try {
+        return await provider({ forceRefresh });
+      } finally {
+        this.refreshingCredential = undefined;
+      }
+    })();
+    // Only this caller stops waiting; the shared refresh carries on for the others
+    return this.useApiKey(await abortable(this.refreshingCredential, signal));
+  }
+
+  /**
+   * Get the model catalog for validation, loading it through getModels() on first use
+   *
+   * The catalog is loaded once. If that fails, only the model checks are
+   * skipped; the server still validates the request.
+   */
+  private async loadModelCatalog(signal?: AbortSignal): Promise<ReadonlyMap<string, Model> | undefined> {
+    if (signal?.aborted) {
+      throw new RequestAbortedError(undefined, signal.reason);
+    }
+
+    if (!this.modelCatalog) {
+      // Shared, so it runs without any one caller's signal
+      this.catalogLoad ??= this.getModels().then(
+        () => undefined,
+        (error: Error) => {
+          this.log('warn', 'Could not load the model catalog; skipping model checks', {
+            error: errorFields(error),
+          });
+        }
+      );
+      await abortable(this.catalogLoad, signal);
+    }
+    return this.modelCatalog;
+  }
+
+  /**
+   * Exchange a signed session message for a token
+   *
+   * Skips the scheduler, since the call needing the token may already hold its slot.
+   */
+  private createSession(params: CreateSessionParams, signal: AbortSignal): Promise<SessionToken> {
+    return this.execute<SessionToken>('POST', '/v1/sessions', params, {
+      signal,
+      anonymous: true,
+      schema: schemas.SessionToken,
+    }, undefined);
+  }
+
+  /**
+   * Serve a read-mostly endpoint through the response cache, if configured
+   */
+  private cached<T>(
+    endpoint: CachedEndpoint,
+    options: InternalRequestOptions = {},
+    load: (options: InternalRequestOptions) => Promise<T>
+  ): Promise<T> {
+    // withResponse() needs the metadata of a real response
+    if (!this.cache || options.onResponse) {
+      return load(options);
+    }
+
+    // The load is shared with concurrent callers and background refreshes, so
+    // it runs without this caller's signal; an abort only ends this caller's wait
+    const { signal, ...shared } = options;
+    return abortable(this.cache.get(this.baseUrl + CACHED_PATHS[endpoint], endpoint, () => load(shared)), signal);
+  }
+
   /**
    * Make an authenticated API request with retry logic
    */
   private async request<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+    method: HttpMethod,
+    path: string,
+    body?: unknown,
+    options: InternalRequestOptions = {}
+  ): Promise<T> {
+    if (!this.shouldDedupe(method, path, options)) {
+      return this.dispatch<T>(method, path, body, options);
+    }
+
+    // Identical concurrent GETs share one request; each caller keeps its own signal
+    return this.inFlight.run(`${method} ${path}`, options.signal, (signal) =>
+      this.dispatch<T>(method, path, body, { ...options, signal })
+    );
+  }
+
+  /**
+   * Check whether a call may share an identical in-flight request
+   */
+  private shouldDedupe(method: HttpMethod, path: string, options: InternalRequestOptions): boolean {
+    // Calls with their own headers may differ, and withResponse() needs its own metadata
+    if (method !== 'GET' || !this.dedupeRequests || options.headers || options.onResponse) {
+      return false;
+    }
+    if (this.dedupeRequests === true) {
+      return true;
+    }
+    return this.dedupeRequests.some(prefix => path.startsWith(prefix));
+  }
+
+  /**
+   * Run a call through tracing and the scheduler
+   */
+  private async dispatch<T>(
+    method: HttpMethod,
     path: string,
-    body?: unknown
+    body: unknown,
+    options: InternalRequestOptions
+  ): Promise<T> {
+    // The deadline also covers time spent waiting in the scheduler queue
+    const deadline = options.deadline ?? this.deadline;
+    const deadlineAt = deadline !== undefined ? Date.now() + deadline : undefined;
+
+    const run = (span?: Span): Promise<T> => {
+      if (!this.scheduler) {
+        return this.execute<T>(method, path, body, options, deadlineAt, span);
+      }
+      return this.scheduler.schedule(
+        () => this.execute<T>(method, path, body, options, deadlineAt, span),
+        { priority: options.priority, signal: options.signal }
+      );
+    };
+
+    if (!this.tracer) {
+      return run();
+    }
+
+    // One span per logical call; each attempt gets a child span in execute()
+    const span = this.tracer.startSpan(`PeerCat ${method} ${path.split('?')[0]}`, {
+      kind: SpanKind.INTERNAL,
+      attributes: requestAttributes(method, path, body),
+    });
+
+    try {
+      const result = await run(span);
+      span.setStatus({ code: SpanStatusCode.OK });
+      return result;
+    } catch (error) {
+      recordError(span, error as Error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Run a call's attempts, retrying as directed by the retry policy
+   */
+  private async execute<T>(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    options: InternalRequestOptions,
+    deadlineAt: number | undefined,
+    callSpan?: Span
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
+    const startedAt = Date.now();
+    const { signal } = options;
+    const timeout = options.timeout ?? this.timeout;
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+    const deadline = options.deadline ?? this.deadline;
 
     const headers: Record<string, string> = {
-      'Authorization': `Bearer ${this.apiKey}`,
       'Content-Type': 'application/json',
     };
+    if (this.apiKey && !this.credentialProvider && !options.anonymous) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
 
     // Only set User-Agent in Node.js environments (browsers forbid this header)
     if (typeof window === 'undefined' && typeof globalThis.navigator === 'undefined') {
       headers['User-Agent'] = '@peercat/sdk/0.1.0';
     }
 
+    // POST requests are not naturally idempotent: reuse one key across all
+    // attempts so the server never runs (and bills) the same call twice
+    const idempotencyKey = method === 'POST'
+      ? options.idempotencyKey ?? generateIdempotencyKey()
+      : undefined;
+    if (idempotencyKey) {
+      headers[IDEMPOTENCY_KEY_HEADER] = idempotencyKey;
+    }
+
+    Object.assign(headers, options.headers);
+    const customAuthorization = Object.keys(headers).some(h => h.toLowerCase() === 'authorization');
+    const authenticate = !customAuthorization && !options.anonymous;
+    const provider = authenticate ? this.credentialProvider : undefined;
+    const pool = authenticate ? this.keyPool : undefined;
+    const session = authenticate ? this.walletSession : undefined;
+
+    const handler = composeMiddleware(this.middleware, (request) => this.send(request));
     let lastError: Error | undefined;
+    this.retryPolicy.recordRequest?.();
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-        const response = await this.fetchFn(url, {
-          method,
-          headers,
-          body: body ? JSON.stringify(body) : undefined,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        // Parse rate limit headers (useful for both success and error cases)
-        const rateLimitInfo = parseRateLimitHeaders(response.headers);
-
-        // Check response status first, before parsing body
-        if (!response.ok) {
-          // Try to parse error response as JSON, with fallback for non-JSON bodies
-          let errorResponse: ApiErrorResponse;
-          try {
-            errorResponse = await response.json() as ApiErrorResponse;
-          } catch {
-            // Non-JSON error body (e.g., HTML error page)
-            errorResponse = {
-              error: {
-                type: 'api_error',
-                code: `http_${response.status}`,
-                message: `HTTP ${response.status}: ${response.statusText}`,
-              },
-            };
-          }
-          throw PeerCatError.fromResponse(errorResponse, response.status, rateLimitInfo);
+    let lastAttempt = 0;
+    let attemptLimit = maxRetries;
+    // Retries that use the budget; failovers and credential refreshes do not
+    let retries = 0;
+    let refreshCredential = false;
+    let credentialRefreshed = false;
+    let failovers = 0;
+
+    try {
+      for (let attempt = 0; attempt <= attemptLimit; attempt++) {
+        lastAttempt = attempt;
+
+        if (signal?.aborted) {
+          throw new RequestAbortedError(undefined, signal.reason);
         }
 
-        // Parse successful response
-        return await response.json() as T;
-      } catch (error) {
-        lastError = error as Error;
+        // Consult the credential provider on every attempt so rotated keys apply at once
+        if (provider) {
+          headers['Authorization'] = `Bearer ${await this.resolveApiKey(provider, refreshCredential, signal)}`;
+        } else if (session) {
+          const token = await session.getToken(
+            (params, shared) => this.createSession(params, shared),
+            refreshCredential,
+            signal
+          );
+          headers['Authorization'] = `Bearer ${token}`;
+        }
 
-        // Don't retry on client errors (4xx) except rate limits
-        if (error instanceof PeerCatError && error.status >= 400 && error.status < 500) {
-          // Allow retry on rate limit errors
-          if (!(error instanceof RateLimitError)) {
-            throw error;
+        // Force only the refresh right after an authentication error
+        refreshCredential = false;
+
+        // Fail fast while the upstream is known to be down
+        this.circuitBreaker?.allowRequest();
+
+        // Until the request is sent, any exit must give back the breaker's trial slot
+        let attemptTimeout: number;
+        try {
+          if (this.rateLimiter) {
+            await this.rateLimiter.acquire(signal);
           }
-        }
 
-        // Handle timeout
-        if (error instanceof Error && error.name === 'AbortError') {
-          lastError = new TimeoutError(`Request timed out after ${this.timeout}ms`);
+          // Each attempt gets the per-attempt timeout, capped by the overall deadline
+          const remaining = deadlineAt !== undefined ? deadlineAt - Date.now() : Infinity;
+          if (remaining <= 0) {
+            throw new TimeoutError(`Request deadline of ${deadline}ms exceeded`);
+          }
+          attemptTimeout = Math.min(timeout, remaining);
+        } catch (error) {
+          this.circuitBreaker?.recordCancellation();
+          throw error;
         }
+        const attemptStartedAt = Date.now();
+
+        // Abort the attempt on timeout or when the caller's signal fires
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), attemptTimeout);
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort);
+
+        const attemptSpan = callSpan && this.tracer?.startSpan(`${method} ${path.split('?')[0]}`, {
+          kind: SpanKind.CLIENT,
+          attributes: {
+            ...requestAttributes(method, path, body),
+            'url.full': url,
+            'http.request.resend_count': attempt > 0 ? attempt : undefined,
+          },
+        }, contextWithSpan(callSpan));
 
-        // Handle network errors
-        if (error instanceof TypeError && error.message.includes('fetch')) {
-          lastError = new NetworkError('Network request failed', error);
+        // Propagate the attempt span unless the caller set their own trace context
+        const attemptHeaders = { ...headers };
+        const traceparent = attemptSpan && formatTraceparent(attemptSpan);
+        if (traceparent && !Object.keys(headers).some(h => h.toLowerCase() === TRACEPARENT_HEADER)) {
+          attemptHeaders[TRACEPARENT_HEADER] = traceparent;
         }
 
-        // If we have more retries, wait with exponential backoff
-        if (attempt < this.maxRetries) {
-          // Use retry-after header if available for rate limit errors
-          let delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-          if (error instanceof RateLimitError && error.retryAfter) {
-            delay = error.retryAfter * 1000; // Convert seconds to ms
+        let poolKey: string | undefined;
+
+        try {
+          // Inside the try so an exhausted pool's RateLimitError goes through the retry policy
+          if (pool) {
+            poolKey = pool.acquire();
+            attemptHeaders['Authorization'] = `Bearer ${poolKey}`;
+          }
+
+          this.events.emit('request', { method, path, attempt });
+          this.log('debug', 'Sending request', {
+            method,
+            url,
+            attempt,
+            headers: attemptHeaders,
+            body,
+          });
+
+          const { data, response } = await handler({
+            method,
+            url,
+            headers: attemptHeaders,
+            body,
+            attempt,
+            signal: controller.signal,
+          });
+
+          // Flag responses the server replayed for a previously used key
+          if (
+            idempotencyKey &&
+            data !== null &&
+            typeof data === 'object' &&
+            response.headers.get(IDEMPOTENT_REPLAYED_HEADER) === 'true'
+          ) {
+            (data as { idempotentReplayed?: boolean }).idempotentReplayed = true;
+          }
+
+          if (options.schema && this.validateResponses !== 'off') {
+            this.validateResponse(data, options.schema, response.status, method, path);
+          }
+
+          this.circuitBreaker?.recordSuccess();
+          if (poolKey) {
+            pool?.recordSuccess(poolKey);
+          }
+          this.log('debug', 'Received response', {
+            method,
+            path,
+            attempt,
+            status: response.status,
+            durationMs: Date.now() - attemptStartedAt,
+            data,
+          });
+          this.log('info', `${method} ${path} ${response.status}`, {
+            method,
+            path,
+            status: response.status,
+            attempts: attempt + 1,
+            durationMs: Date.now() - startedAt,
+          });
+
+          if (attemptSpan && callSpan) {
+            const attributes = responseAttributes(response.status, data);
+            setAttributes(attemptSpan, attributes);
+            attemptSpan.setStatus({ code: SpanStatusCode.OK });
+            attemptSpan.end();
+            setAttributes(callSpan, { ...attributes, 'peercat.attempts': attempt + 1 });
+          }
+
+          // Middleware may short-circuit with a bare response, so only read
+          // headers when someone is listening
+          if (options.onResponse || this.events.has('response')) {
+            const rateLimit = parseRateLimitHeaders(response.headers);
+            const requestId = response.headers.get(REQUEST_ID_HEADER);
+            this.events.emit('response', {
+              method,
+              path,
+              attempt,
+              status: response.status,
+              durationMs: Date.now() - attemptStartedAt,
+              rateLimit,
+              requestId,
+            });
+            options.onResponse?.({
+              status: response.status,
+              headers: response.headers,
+              rateLimit,
+              requestId,
+              attempts: attempt + 1,
+              elapsedMs: Date.now() - startedAt,
+            });
+          }
+          return data as T;
+        } catch (error) {
+          lastError = error as Error;
+
+          // Never retry once the caller has aborted
+          if (signal?.aborted) {
+            this.circuitBreaker?.recordCancellation();
+            const aborted = new RequestAbortedError(undefined, signal.reason);
+            if (attemptSpan) {
+              recordError(attemptSpan, aborted);
+              attemptSpan.end();
+            }
+            throw aborted;
+          }
+
+          // Handle timeout
+          if (error instanceof Error && error.name === 'AbortError') {
+            lastError = attemptTimeout < timeout
+              ? new TimeoutError(`Request deadline of ${deadline}ms exceeded`)
+              : new TimeoutError(`Request timed out after ${timeout}ms`);
+          }
+
+          // Handle network errors
+          if (error instanceof TypeError && error.message.includes('fetch')) {
+            lastError = new NetworkError('Network request failed', error);
+          }
+
+          // An exhausted pool fails before anything is sent, so it says
+          // nothing about the upstream
+          if (pool && !poolKey) {
+            this.circuitBreaker?.recordCancellation();
+          } else {
+            this.circuitBreaker?.recordFailure(lastError);
+          }
+
+          if (attemptSpan) {
+            recordError(attemptSpan, lastError);
+            attemptSpan.end();
+          }
+          callSpan?.setAttribute('peercat.attempts', attempt + 1);
+
+          if (lastError instanceof RateLimitError) {
+            this.events.emit('rateLimited', {
+              method,
+              path,
+              attempt,
+              rateLimit: lastError.rateLimitInfo ?? {},
+              retryAfter: lastError.retryAfter,
+            });
+          }
+
+          // Bench or drop the pooled key, then fail over to another one at once, outside the retry budget
+          if (pool && poolKey) {
+            pool.recordFailure(poolKey, lastError);
+
+            const keyProblem = lastError instanceof RateLimitError || lastError instanceof AuthenticationError;
+            if (keyProblem && failovers < pool.keys.length && pool.hasAvailable()) {
+              failovers++;
+              attemptLimit++;
+              this.log('warn', 'Failing over to another API key', {
+                method,
+                path,
+                attempt,
+                error: errorFields(lastError),
+              });
+              this.events.emit('retry', {
+                method,
+                path,
+                attempt,
+                error: lastError,
+                reason: lastError instanceof PeerCatError ? lastError.code : lastError.name,
+                delayMs: 0,
+                durationMs: Date.now() - attemptStartedAt,
+              });
+              continue;
+            }
+          }
+
+          // The key may have been rotated or the session expired early: refresh it
+          // and try once more, outside the retry budget
+          if (lastError instanceof AuthenticationError && (provider || session) && !credentialRefreshed) {
+            refreshCredential = true;
+            credentialRefreshed = true;
+            attemptLimit++;
+            this.log('warn', 'Refreshing credential after authentication error', {
+              method,
+              path,
+              attempt,
+              error: errorFields(lastError),
+            });
+            this.events.emit('retry', {
+              method,
+              path,
+              attempt,
+              error: lastError,
+              reason: lastError.code,
+              delayMs: 0,
+              durationMs: Date.now() - attemptStartedAt,
+            });
+            continue;
+          }
+
+          if (retries >= maxRetries || !this.retryPolicy.shouldRetry(lastError, retries)) {
+            throw lastError;
+          }
+
+          // Wait as directed by the retry policy
+          const delay = this.retryPolicy.getDelay(lastError, retries);
+
+          // Give up now rather than sleep past the deadline
+          if (deadlineAt !== undefined && Date.now() + delay >= deadlineAt) {
+            throw lastError;
           }
-          await this.sleep(delay);
+
+          this.log('warn', 'Retrying request', {
+            method,
+            path,
+            attempt,
+            delayMs: delay,
+            error: errorFields(lastError),
+          });
+          this.events.emit('retry', {
+            method,
+            path,
+            attempt,
+            error: lastError,
+            reason: lastError instanceof PeerCatError ? lastError.code : lastError.name,
+            delayMs: delay,
+            durationMs: Date.now() - attemptStartedAt,
+          });
+          retries++;
+          await sleep(delay, signal);
+        } finally {
+          clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
         }
       }
+
+      throw lastError ?? new NetworkError('Request failed after retries');
+    } catch (error) {
+      this.log('error', `${method} ${path} failed`, {
+        method,
+        path,
+        attempts: lastAttempt + 1,
+        durationMs: Date.now() - startedAt,
+        error: errorFields(error as Error),
+      });
+      this.events.emit('error', {
+        method,
+        path,
+        attempt: lastAttempt,
+        error: error as Error,
+        durationMs: Date.now() - startedAt,
+        rateLimit: error instanceof RateLimitError ? error.rateLimitInfo : undefined,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check a response body against its schema; throws in strict mode, warns otherwise
+   */
+  private validateResponse(
+    data: unknown,
+    schema: ObjectSchema,
+    status: number,
+    method: HttpMethod,
+    path: string
+  ): void {
+    const issues = findSchemaIssues(data, schema);
+    if (issues.length === 0) {
+      return;
     }
 
-    throw lastError ?? new NetworkError('Request failed after retries');
+    const error = new ResponseValidationError(issues, status);
+    if (this.validateResponses === 'strict') {
+      throw error;
+    }
+
+    (this.logger ?? console).warn(`${error.message} (${method} ${path})`, { method, path, issues });
+  }
+
+  /**
+   * Write a log entry, with secrets (and prompts, unless disabled) redacted
+   */
+  private log(level: LogLevel, message: string, fields: LogFields): void {
+    if (!this.logger || !isLevelEnabled(level, this.logLevel)) {
+      return;
+    }
+
+    try {
+      this.logger[level](message, redact(fields, { prompts: this.redactPrompts }) as LogFields);
+    } catch {
+      // Logging must never break a request
+    }
   }
 
   /**
-   * Sleep for a specified duration
+   * Perform a single HTTP attempt (innermost middleware handler)
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async send(request: MiddlewareRequest): Promise<MiddlewareResponse> {
+    const response = await this.fetchFn(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body ? JSON.stringify(request.body) : undefined,
+      signal: request.signal,
+    });
+
+    // Parse rate limit headers (useful for both success and error cases)
+    const rateLimitInfo = parseRateLimitHeaders(response.headers);
+    if (this.rateLimiter) {
+      await this.rateLimiter.update(rateLimitInfo);
+    }
+
+    // Check response status first, before parsing body
+    if (!response.ok) {
+      // Try to parse error response as JSON, with fallback for non-JSON bodies
+      let errorResponse: ApiErrorResponse;
+      try {
+        errorResponse = await response.json() as ApiErrorResponse;
+      } catch {
+        // Non-JSON error body (e.g., HTML error page)
+        errorResponse = {
+          error: {
+            type: 'api_error',
+            code: `http_${response.status}`,
+            message: `HTTP ${response.status}: ${response.statusText}`,
+          },
+        };
+      }
+      throw PeerCatError.fromResponse(errorResponse, response.status, rateLimitInfo);
+    }
+
+    // Parse successful response
+    return { response, data: await response.json() };
   }
 }
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { detectKeyEnvironment, readEnvConfig } from './config';
+import { PeerCat } from './client';
+import { AuthenticationError, InvalidRequestError } from './errors';
+
+const mockFetch = vi.fn();
+
+function createMockResponse(data: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: () => null,
+    },
+  };
+}
+
+describe('Environment Configuration', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetAllMocks();
+  });
+
+  describe('detectKeyEnvironment', () => {
+    it('should detect live and test keys by prefix', () => {
+      expect(detectKeyEnvironment('pcat_live_abc')).toBe('live');
+      expect(detectKeyEnvironment('pcat_test_abc')).toBe('test');
+    });
+
+    it('should return undefined for other keys', () => {
+      expect(detectKeyEnvironment('test')).toBeUndefined();
+      expect(detectKeyEnvironment('pcat_abc')).toBeUndefined();
+      expect(detectKeyEnvironment('PCAT_LIVE_abc')).toBeUndefined();
+    });
+  });
+
+  describe('readEnvConfig', () => {
+    it('should read connection settings', () => {
+      vi.stubEnv('PEERCAT_API_KEY', 'pcat_test_env');
+      vi.stubEnv('PEERCAT_BASE_URL', 'http://localhost:4010');
+      vi.stubEnv('PEERCAT_TIMEOUT', '5000');
+      vi.stubEnv('PEERCAT_MAX_RETRIES', '0');
+
+      expect(readEnvConfig()).toEqual({
+        apiKey: 'pcat_test_env',
+        baseUrl: 'http://localhost:4010',
+        timeout: 5000,
+        maxRetries: 0,
+      });
+    });
+
+    it('should treat empty variables as unset', () => {
+      vi.stubEnv('PEERCAT_API_KEY', '');
+      vi.stubEnv('PEERCAT_TIMEOUT', ' ');
+
+      expect(readEnvConfig()).toMatchObject({ apiKey: undefined, timeout: undefined });
+    });
+
+    it('should reject invalid numbers', () => {
+      vi.stubEnv('PEERCAT_TIMEOUT', '5s');
+
+      expect(() => readEnvConfig()).toThrow(InvalidRequestError);
+      expect(() => readEnvConfig()).toThrow("PEERCAT_TIMEOUT must be a non-negative number, got '5s'");
+
+      vi.stubEnv('PEERCAT_TIMEOUT', '');
+      vi.stubEnv('PEERCAT_MAX_RETRIES', '-1');
+      expect(() => readEnvConfig()).toThrow(expect.objectContaining({ param: 'PEERCAT_MAX_RETRIES' }));
+    });
+
+    it('should skip variables the explicit config already sets', () => {
+      vi.stubEnv('PEERCAT_API_KEY', 'pcat_test_env');
+      vi.stubEnv('PEERCAT_TIMEOUT', '5s');
+      vi.stubEnv('PEERCAT_MAX_RETRIES', '-1');
+
+      expect(readEnvConfig({ timeout: 1000, maxRetries: 2 })).toEqual({
+        apiKey: 'pcat_test_env',
+        baseUrl: undefined,
+        timeout: undefined,
+        maxRetries: undefined,
+      });
+      expect(() => new PeerCat({ timeout: 1000, maxRetries: 2 })).not.toThrow();
+      expect(() => new PeerCat({ timeout: 1000 })).toThrow(expect.objectContaining({ param: 'PEERCAT_MAX_RETRIES' }));
+    });
+  });
+
+  describe('PeerCat constructor', () => {
+    it('should fall back to environment variables', async () => {
+      vi.stubEnv('PEERCAT_API_KEY', 'pcat_test_env');
+      vi.stubEnv('PEERCAT_BASE_URL', 'http://localhost:4010/');
+      mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const client = new PeerCat({ fetch: mockFetch });
+      await client.getBalance();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:4010/v1/balance',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer pcat_test_env' }),
+        })
+      );
+    });
+
+    it('should prefer explicit config over the environment', async () => {
+      vi.stubEnv('PEERCAT_API_KEY', 'pcat_test_env');
+      vi.stubEnv('PEERCAT_MAX_RETRIES', '5');
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      const client = new PeerCat({ apiKey: 'pcat_test_config', fetch: mockFetch, maxRetries: 0 });
+
+      await expect(client.getBalance()).rejects.toThrow('Network request failed');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0]![1].headers.Authorization).toBe('Bearer pcat_test_config');
+    });
+
+    it('should throw AuthenticationError without any API key', () => {
+      vi.stubEnv('PEERCAT_API_KEY', '');
+
+      expect(() => new PeerCat({ fetch: mockFetch })).toThrow(AuthenticationError);
+      expect(() => new PeerCat()).toThrow(expect.objectContaining({ code: 'missing_api_key', param: 'apiKey' }));
+    });
+
+    it('should expose the key environment', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+
+      expect(new PeerCat({ apiKey: 'pcat_live_abc', fetch: mockFetch }).environment).toBe('live');
+      expect(new PeerCat({ apiKey: 'pcat_test_abc', fetch: mockFetch }).environment).toBe('test');
+      expect(new PeerCat({ apiKey: 'custom', fetch: mockFetch }).environment).toBeUndefined();
+    });
+
+    it('should refuse live keys when NODE_ENV is test', () => {
+      vi.stubEnv('NODE_ENV', 'test');
+
+      expect(() => new PeerCat({ apiKey: 'pcat_live_abc', fetch: mockFetch })).toThrow(
+        expect.objectContaining({ name: 'AuthenticationError', code: 'live_key_in_test' })
+      );
+      expect(new PeerCat({ apiKey: 'pcat_test_abc', fetch: mockFetch }).environment).toBe('test');
+    });
+
+    it('should allow live keys in tests when configured', () => {
+      vi.stubEnv('NODE_ENV', 'test');
+
+      const client = new PeerCat({ apiKey: 'pcat_live_abc', fetch: mockFetch, allowLiveKeyInTests: true });
+
+      expect(client.environment).toBe('live');
+    });
+  });
+});
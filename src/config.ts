@@ -0,0 +1,50 @@
+/**
+ * PeerCat SDK Environment Configuration
+ */
+
+import { InvalidRequestError } from './errors';
+import { getEnv } from './utils';
+import type { KeyEnvironment, PeerCatConfig } from './types';
+
+const KEY_PREFIXES: Record<KeyEnvironment, string> = {
+  live: 'pcat_live_',
+  test: 'pcat_test_',
+};
+
+/**
+ * Tell live from test keys by their `pcat_live_` / `pcat_test_` prefix
+ *
+ * @returns The key's environment, or undefined for keys without a known prefix
+ */
+export function detectKeyEnvironment(apiKey: string): KeyEnvironment | undefined {
+  return (Object.keys(KEY_PREFIXES) as KeyEnvironment[]).find(env => apiKey.startsWith(KEY_PREFIXES[env]));
+}
+
+/**
+ * Connection settings from `PEERCAT_API_KEY`, `PEERCAT_BASE_URL`,
+ * `PEERCAT_TIMEOUT` and `PEERCAT_MAX_RETRIES`
+ *
+ * @param config - Explicit settings; a variable is only read when its field is undefined
+ * @throws InvalidRequestError if a numeric variable that is read is not a non-negative number
+ */
+export function readEnvConfig(config: PeerCatConfig = {}): Pick<PeerCatConfig, 'apiKey' | 'baseUrl' | 'timeout' | 'maxRetries'> {
+  return {
+    apiKey: config.apiKey === undefined ? getEnv('PEERCAT_API_KEY') || undefined : undefined,
+    baseUrl: config.baseUrl === undefined ? getEnv('PEERCAT_BASE_URL') || undefined : undefined,
+    timeout: config.timeout === undefined ? readNumber('PEERCAT_TIMEOUT') : undefined,
+    maxRetries: config.maxRetries === undefined ? readNumber('PEERCAT_MAX_RETRIES') : undefined,
+  };
+}
+
+function readNumber(name: string): number | undefined {
+  const value = getEnv(name)?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new InvalidRequestError(`${name} must be a non-negative number, got '${value}'`, 'invalid_config', name);
+  }
+  return parsed;
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PeerCat } from './client';
+import { InFlightRequests } from './dedupe';
+import { RequestAbortedError } from './errors';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+// Fetch that stays pending until released, and rejects like fetch when aborted
+function createPendingFetch(data: unknown) {
+  const releases: Array<() => void> = [];
+  const signals: AbortSignal[] = [];
+  const fetch = vi.fn((_url: string, init: { signal: AbortSignal }) => {
+    signals.push(init.signal);
+    return new Promise((resolve, reject) => {
+      releases.push(() => resolve(createMockResponse(data)));
+      init.signal.addEventListener('abort', () => {
+        reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+      });
+    });
+  });
+  return { fetch, releases, signals };
+}
+
+describe('Request deduplication', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should share one request between identical concurrent GETs', async () => {
+    const { fetch, releases } = createPendingFetch({ credits: 10 });
+    const client = new PeerCat({ apiKey: 'test', fetch, dedupeRequests: true });
+
+    const calls = [client.getBalance(), client.getBalance(), client.getBalance()];
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    releases[0]!();
+    expect(await Promise.all(calls)).toEqual([{ credits: 10 }, { credits: 10 }, { credits: 10 }]);
+  });
+
+  it('should start a new request once the previous one settled', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ credits: 10 }));
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, dedupeRequests: true });
+
+    await client.getBalance();
+    await client.getBalance();
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share requests for different paths or non-GET methods', async () => {
+    mockFetch.mockImplementation(async () => createMockResponse({ txSignature: 'sig', status: 'pending', id: 'gen' }));
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, dedupeRequests: true, validateRequests: false });
+
+    await Promise.all([
+      client.getOnChainStatus('sig1'),
+      client.getOnChainStatus('sig2'),
+      client.generate({ prompt: 'test' }),
+      client.generate({ prompt: 'test' }),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should only dedupe configured endpoints', async () => {
+    const { fetch, releases } = createPendingFetch({ credits: 10, keys: [] });
+    const client = new PeerCat({ apiKey: 'test', fetch, dedupeRequests: ['/v1/balance', '/v1/generate/'] });
+
+    const calls = [client.getBalance(), client.getBalance(), client.listKeys(), client.listKeys()];
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    releases.forEach(release => release());
+    await Promise.all(calls);
+  });
+
+  it('should not dedupe by default', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ credits: 10 }));
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+
+    await Promise.all([client.getBalance(), client.getBalance()]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let one caller abort without affecting the others', async () => {
+    const { fetch, releases, signals } = createPendingFetch({ credits: 10 });
+    const client = new PeerCat({ apiKey: 'test', fetch, dedupeRequests: true });
+    const controller = new AbortController();
+
+    const aborted = client.getBalance({ signal: controller.signal });
+    const other = client.getBalance();
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow(RequestAbortedError);
+    expect(signals[0]!.aborted).toBe(false);
+
+    releases[0]!();
+    await expect(other).resolves.toEqual({ credits: 10 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort the shared request once every caller aborted', async () => {
+    const { fetch, signals } = createPendingFetch({ credits: 10 });
+    const client = new PeerCat({ apiKey: 'test', fetch, dedupeRequests: true });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const calls = [
+      client.getBalance({ signal: first.signal }),
+      client.getBalance({ signal: second.signal }),
+    ];
+    first.abort();
+    second.abort();
+
+    for (const call of calls) {
+      await expect(call).rejects.toThrow(RequestAbortedError);
+    }
+    expect(signals[0]!.aborted).toBe(true);
+  });
+
+  it('should share failures with every caller', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      error: { type: 'authentication_error', code: 'invalid_key', message: 'Invalid key', param: null },
+    }, { ok: false, status: 401 }));
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, dedupeRequests: true });
+
+    const results = await Promise.allSettled([client.getBalance(), client.getBalance()]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  describe('InFlightRequests', () => {
+    it('should forget requests once they settle', async () => {
+      const inFlight = new InFlightRequests();
+
+      const result = inFlight.run('key', undefined, async () => 42);
+      expect(inFlight.size).toBe(1);
+
+      await expect(result).resolves.toBe(42);
+      expect(inFlight.size).toBe(0);
+    });
+
+    it('should reject callers whose signal already aborted', async () => {
+      const inFlight = new InFlightRequests();
+      const start = vi.fn(async () => 42);
+
+      await expect(inFlight.run('key', AbortSignal.abort(), start)).rejects.toThrow(RequestAbortedError);
+      expect(start).not.toHaveBeenCalled();
+    });
+  });
+});
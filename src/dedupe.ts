@@ -0,0 +1,81 @@
+/**
+ * PeerCat SDK Request Deduplication
+ */
+
+import { RequestAbortedError } from './errors';
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+}
+
+/**
+ * Coalesces identical concurrent requests into one in-flight promise
+ *
+ * Each caller can abort on its own; the shared request is only aborted once
+ * every caller waiting on it has aborted.
+ */
+export class InFlightRequests {
+  private readonly requests = new Map<string, SharedRequest>();
+
+  /** Number of distinct requests currently in flight */
+  get size(): number {
+    return this.requests.size;
+  }
+
+  /**
+   * Join the in-flight request for `key`, or start it
+   *
+   * @param key - Identifies identical requests
+   * @param signal - The caller's abort signal
+   * @param start - Starts the shared request; receives a signal aborted when every caller has aborted
+   */
+  run<T>(key: string, signal: AbortSignal | undefined, start: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError(undefined, signal.reason));
+    }
+
+    let shared = this.requests.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const entry: SharedRequest = { promise: start(controller.signal), controller, callers: 0 };
+      const cleanup = () => this.remove(key, entry);
+      entry.promise.then(cleanup, cleanup);
+      this.requests.set(key, entry);
+      shared = entry;
+    }
+
+    const request = shared;
+    request.callers++;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new RequestAbortedError(undefined, signal?.reason));
+        request.callers--;
+        if (request.callers === 0) {
+          this.remove(key, request);
+          request.controller.abort();
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      request.promise.then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private remove(key: string, request: SharedRequest): void {
+    if (this.requests.get(key) === request) {
+      this.requests.delete(key);
+    }
+  }
+}
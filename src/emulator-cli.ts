@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+/**
+ * PeerCat SDK Local API Emulator command
+ *
+ * Usage: peercat-emulator [--port 4010] [--host 127.0.0.1] [--credits 10] [--no-rate-limit]
+ */
+
+import { PeerCatEmulator } from './emulator';
+
+const USAGE = 'Usage: peercat-emulator [--port 4010] [--host 127.0.0.1] [--credits 10] [--no-rate-limit]';
+
+async function main(args: string[]): Promise<void> {
+  let port = 4010;
+  let host = '127.0.0.1';
+  let credits: number | undefined;
+  let rateLimit = true;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--port':
+        port = parseNumberArg(arg, args[++i]);
+        break;
+      case '--host':
+        host = args[++i] ?? host;
+        break;
+      case '--credits':
+        credits = parseNumberArg(arg, args[++i]);
+        break;
+      case '--no-rate-limit':
+        rateLimit = false;
+        break;
+      case '--help':
+        console.log(USAGE);
+        return;
+      default:
+        throw new Error(`Unknown option: ${arg}\n${USAGE}`);
+    }
+  }
+
+  const emulator = new PeerCatEmulator({ credits, rateLimit: rateLimit ? undefined : false });
+  const url = await emulator.start(port, host);
+  console.log(`PeerCat emulator listening on ${url}`);
+
+  const shutdown = () => {
+    emulator.stop().then(() => process.exit(0), () => process.exit(1));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+function parseNumberArg(name: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || Number.isNaN(parsed)) {
+    throw new Error(`${name} expects a number`);
+  }
+  return parsed;
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
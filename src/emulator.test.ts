@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PeerCatEmulator } from './emulator';
+import type { PeerCatEmulatorOptions } from './emulator';
+import { PeerCat } from './client';
+import {
+  AuthenticationError,
+  InsufficientCreditsError,
+  InvalidRequestError,
+  NotFoundError,
+  RateLimitError,
+} from './errors';
+
+describe('PeerCatEmulator', () => {
+  let emulator: PeerCatEmulator;
+  let url: string;
+
+  async function startEmulator(options: PeerCatEmulatorOptions = {}): Promise<PeerCat> {
+    emulator = new PeerCatEmulator(options);
+    url = await emulator.start();
+    return new PeerCat({ apiKey: 'pcat_test_ci', baseUrl: url, maxRetries: 0 });
+  }
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await emulator.stop();
+  });
+
+  describe('lifecycle', () => {
+    beforeEach(async () => {
+      await startEmulator();
+    });
+
+    it('should listen on a free local port', () => {
+      expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+      expect(emulator.url).toBe(url);
+    });
+
+    it('should refuse to start twice and stop idempotently', async () => {
+      await expect(emulator.start()).rejects.toThrow('already running');
+
+      await emulator.stop();
+      await emulator.stop();
+      expect(emulator.url).toBeUndefined();
+    });
+  });
+
+  describe('API', () => {
+    let client: PeerCat;
+
+    beforeEach(async () => {
+      client = await startEmulator({ credits: 1 });
+    });
+
+    it('should generate images and spend credits', async () => {
+      const result = await client.generate({ prompt: 'A red fox' });
+
+      expect(result.model).toBe('stable-diffusion-xl');
+      expect(result.usage).toEqual({ creditsUsed: 0.28, balanceRemaining: 0.72 });
+      expect((await client.getBalance()).credits).toBe(0.72);
+
+      const history = await client.getHistory({ limit: 10 });
+      expect(history.items).toHaveLength(1);
+      expect(history.pagination).toMatchObject({ total: 1, limit: 10, offset: 0 });
+    });
+
+    it('should serve models and prices', async () => {
+      const models = await client.getModels();
+      const prices = await client.getPrices();
+
+      expect(models.map(model => model.id)).toEqual(['stable-diffusion-xl', 'imagen-4.0-generate-001']);
+      expect(prices.models).toHaveLength(2);
+      expect(prices.solPrice).toBe(150);
+    });
+
+    it('should manage keys', async () => {
+      const created = await client.createKey({ name: 'CI', message: 'Sign in', signature: 'sig', publicKey: 'pub' });
+
+      await client.updateKeyName(created.id, 'Deploys');
+      await client.revokeKey(created.id);
+
+      const { keys } = await client.listKeys();
+      expect(keys).toEqual([expect.objectContaining({ id: created.id, name: 'Deploys', revoked: true })]);
+      await expect(client.revokeKey('key_missing')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should return the error shapes the client parses', async () => {
+      const unvalidated = new PeerCat({ apiKey: 'pcat_test_ci', baseUrl: url, maxRetries: 0, validateRequests: false });
+
+      await expect(unvalidated.generate({ prompt: 'A red fox', model: 'dall-e' })).rejects.toMatchObject({
+        name: 'InvalidRequestError',
+        code: 'invalid_model',
+        param: 'model',
+        status: 400,
+      });
+
+      emulator.fake.failNext(new InsufficientCreditsError('No credits left', 'insufficient_credits'));
+      await expect(client.getBalance()).rejects.toThrow(InsufficientCreditsError);
+    });
+
+    it('should reject unknown API keys', async () => {
+      const stranger = new PeerCat({ apiKey: 'sk_other', baseUrl: url, maxRetries: 0 });
+
+      await expect(stranger.getBalance()).rejects.toThrow(AuthenticationError);
+      await expect(stranger.getModels()).resolves.toHaveLength(2);
+    });
+
+    it('should reject malformed JSON and unknown routes', async () => {
+      const headers = { Authorization: 'Bearer pcat_test_ci' };
+
+      const invalid = await fetch(`${url}/v1/generate`, { method: 'POST', headers, body: '{' });
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toMatchObject({ error: { type: 'invalid_request_error', code: 'invalid_json' } });
+
+      const missing = await fetch(`${url}/v1/nothing`, { headers });
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toMatchObject({ error: { type: 'not_found', code: 'route_not_found' } });
+    });
+
+    it('should replay POSTs with the same idempotency key', async () => {
+      const first = await client.generate({ prompt: 'A red fox' }, { idempotencyKey: 'order-1' });
+      const second = await client.generate({ prompt: 'A red fox' }, { idempotencyKey: 'order-1' });
+
+      expect(second.id).toBe(first.id);
+      expect(second.idempotentReplayed).toBe(true);
+      expect((await client.getBalance()).credits).toBe(0.72);
+    });
+
+    it('should reject invalid prompts server-side', async () => {
+      const unvalidated = new PeerCat({ apiKey: 'pcat_test_ci', baseUrl: url, maxRetries: 0, validateRequests: false });
+
+      await expect(unvalidated.generate({ prompt: '' })).rejects.toThrow(InvalidRequestError);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should send rate limit headers and answer 429 over the limit', async () => {
+      const client = await startEmulator({ rateLimit: { limit: 2, windowMs: 60000 } });
+
+      const { response } = await client.withResponse().getBalance();
+      expect(response.rateLimit).toMatchObject({ limit: 2, remaining: 1 });
+      expect(response.requestId).toMatch(/^req_emulator_/);
+
+      await client.getBalance();
+      const error = await client.getBalance().catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfter).toBeGreaterThan(0);
+    });
+
+    it('should not count public endpoints', async () => {
+      const client = await startEmulator({ rateLimit: { limit: 1, windowMs: 60000 } });
+
+      await client.getModels();
+      await client.getPrices();
+      await expect(client.getBalance()).resolves.toBeDefined();
+    });
+  });
+
+  describe('on-chain payments', () => {
+    it('should move confirmed payments through pending and processing to completed', async () => {
+      const client = await startEmulator({ onChainTimings: { pending: 1000, processing: 2000 } });
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      const submission = await client.submitPrompt({ prompt: 'A red fox', model: 'imagen-4.0-generate-001' });
+      emulator.confirmPayment('tx_1', { submissionId: submission.submissionId });
+
+      expect(await client.getOnChainStatus('tx_1')).toMatchObject({ status: 'pending', model: 'imagen-4.0-generate-001' });
+
+      vi.setSystemTime(Date.now() + 1500);
+      expect((await client.getOnChainStatus('tx_1')).status).toBe('processing');
+
+      vi.setSystemTime(Date.now() + 2000);
+      const completed = await client.getOnChainStatus('tx_1');
+      expect(completed.status).toBe('completed');
+      expect(completed.imageUrl).toBeDefined();
+    });
+
+    it('should confirm payments over HTTP with a chosen outcome', async () => {
+      const client = await startEmulator({ onChainTimings: { pending: 0, processing: 0 } });
+
+      const response = await fetch(`${url}/_emulator/payments`, {
+        method: 'POST',
+        body: JSON.stringify({ txSignature: 'tx_2', outcome: 'refunded' }),
+      });
+      expect(response.status).toBe(200);
+
+      expect((await client.getOnChainStatus('tx_2')).status).toBe('refunded');
+      await expect(client.getOnChainStatus('tx_unknown')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,449 @@
+/**
+ * PeerCat SDK Local API Emulator
+ *
+ * HTTP server speaking the PeerCat API for integration tests, backed by an
+ * in-memory `FakePeerCat`. Node.js only; import it from `@peercat/sdk/emulator`.
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { PeerCatError } from './errors';
+import { FakePeerCat } from './fake';
+import type { FakePeerCatOptions } from './fake';
+import type {
+  ApiErrorResponse,
+  CreateKeyParams,
+  GenerateParams,
+  ModelId,
+  OnChainGenerationStatus,
+  SessionToken,
+  SubmitPromptParams,
+} from './types';
+
+export interface EmulatorRateLimit {
+  /** Requests allowed per API key in each window */
+  limit: number;
+  /** Window length in ms */
+  windowMs: number;
+}
+
+export interface PeerCatEmulatorOptions extends FakePeerCatOptions {
+  /** Accepted API keys (default: any key starting with `pcat_`) */
+  apiKeys?: string[];
+  /** Per-key fixed window rate limit, or false to disable (default: 60 requests per minute) */
+  rateLimit?: EmulatorRateLimit | false;
+  /** Time in ms a confirmed payment spends `pending`, then `processing` (default: 2000 and 3000) */
+  onChainTimings?: { pending?: number; processing?: number };
+  /** Lifetime in ms of wallet session tokens (default: 900000) */
+  sessionTtl?: number;
+}
+
+/**
+ * Final state of an emulated on-chain generation
+ */
+export type PaymentOutcome = 'completed' | 'failed' | 'refunded';
+
+interface Payment {
+  model: ModelId;
+  confirmedAt: number;
+  outcome: PaymentOutcome;
+}
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+interface EmulatorResponse {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+const DEFAULT_RATE_LIMIT: EmulatorRateLimit = { limit: 60, windowMs: 60000 };
+const PUBLIC_PATHS = ['/v1/models', '/v1/price', '/v1/sessions'];
+const DEFAULT_SESSION_TTL = 15 * 60 * 1000;
+
+/**
+ * Local PeerCat API server
+ *
+ * Serves `/v1/generate`, `/v1/models`, `/v1/price`, `/v1/balance`,
+ * `/v1/history`, `/v1/keys`, `/v1/prompts` and `/v1/sessions` with the API's JSON and error
+ * shapes, `X-RateLimit-*` headers and idempotent replays. Confirmed payments
+ * move from `pending` to `processing` to their outcome over time.
+ *
+ * @example
+ * ```typescript
+ * const emulator = new PeerCatEmulator({ credits: 5 });
+ * const url = await emulator.start();
+ *
+ * const client = new PeerCat({ apiKey: 'pcat_test_ci', baseUrl: url });
+ * await client.generate({ prompt: 'A red fox' });
+ *
+ * await emulator.stop();
+ * ```
+ */
+export class PeerCatEmulator {
+  /** Backing state; script failures or top up credits through it */
+  readonly fake: FakePeerCat;
+
+  private readonly apiKeys?: Set<string>;
+  private readonly rateLimit: EmulatorRateLimit | false;
+  private readonly pendingMs: number;
+  private readonly processingMs: number;
+  private readonly windows = new Map<string, RateWindow>();
+  private readonly payments = new Map<string, Payment>();
+  private readonly submissions = new Map<string, ModelId>();
+  private readonly idempotentResponses = new Map<string, EmulatorResponse>();
+  private readonly sessionTtl: number;
+  /** Expiry (ms) of each issued session token */
+  private readonly sessions = new Map<string, number>();
+  private server?: Server;
+  private nextRequestId = 1;
+  private nextSessionId = 1;
+
+  constructor(options: PeerCatEmulatorOptions = {}) {
+    this.fake = new FakePeerCat(options);
+    this.apiKeys = options.apiKeys ? new Set(options.apiKeys) : undefined;
+    this.rateLimit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+    this.pendingMs = options.onChainTimings?.pending ?? 2000;
+    this.processingMs = options.onChainTimings?.processing ?? 3000;
+    this.sessionTtl = options.sessionTtl ?? DEFAULT_SESSION_TTL;
+  }
+
+  /** Base URL of the running server */
+  get url(): string | undefined {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      return undefined;
+    }
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Start listening
+   *
+   * @param port - Port to listen on (default: 0, a free port)
+   * @param host - Interface to bind (default: 127.0.0.1)
+   * @returns Base URL to pass as `baseUrl`
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error('Emulator is already running');
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(() => {
+        res.destroy();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    return this.url as string;
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Simulate a confirmed on-chain payment for `getOnChainStatus()`
+   *
+   * Also available over HTTP as `POST /_emulator/payments` with the same fields.
+   *
+   * @param txSignature - Transaction signature to report on
+   * @param options - Submission the payment is for, and how generation ends (default: completed)
+   */
+  confirmPayment(
+    txSignature: string,
+    options: { submissionId?: string; model?: ModelId; outcome?: PaymentOutcome } = {}
+  ): void {
+    const model = options.model
+      ?? (options.submissionId ? this.submissions.get(options.submissionId) : undefined)
+      ?? 'stable-diffusion-xl';
+
+    this.payments.set(txSignature, {
+      model,
+      confirmedAt: Date.now(),
+      outcome: options.outcome ?? 'completed',
+    });
+  }
+
+  // ============ Internal Methods ============
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const headers: Record<string, string> = {
+      'X-Request-Id': `req_emulator_${this.nextRequestId++}`,
+    };
+
+    let result: EmulatorResponse;
+    try {
+      const body = await readJson(req);
+      result = this.authorize(req, url.pathname, headers)
+        ?? await this.replay(req, method, url.pathname, () => this.route(method, url, body));
+    } catch (error) {
+      result = toErrorResponse(error);
+    }
+
+    res.writeHead(result.status, {
+      ...headers,
+      ...result.headers,
+      'Content-Type': 'application/json',
+    });
+    res.end(JSON.stringify(result.body));
+  }
+
+  /**
+   * Check the API key and rate limit; returns an error response to send, if any
+   */
+  private authorize(
+    req: IncomingMessage,
+    path: string,
+    headers: Record<string, string>
+  ): EmulatorResponse | undefined {
+    if (!path.startsWith('/v1/') || PUBLIC_PATHS.includes(path)) {
+      return undefined;
+    }
+
+    const apiKey = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+    const sessionExpiresAt = apiKey ? this.sessions.get(apiKey) : undefined;
+    if (sessionExpiresAt !== undefined && Date.now() >= sessionExpiresAt) {
+      return errorResponse(401, 'authentication_error', 'session_expired', 'Session has expired');
+    }
+
+    const valid = apiKey && (
+      sessionExpiresAt !== undefined || (this.apiKeys ? this.apiKeys.has(apiKey) : apiKey.startsWith('pcat_'))
+    );
+    if (!valid) {
+      return errorResponse(401, 'authentication_error', 'invalid_api_key', 'Invalid or missing API key');
+    }
+
+    if (!this.rateLimit) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    let window = this.windows.get(apiKey);
+    if (!window || now >= window.resetAt) {
+      window = { count: 0, resetAt: now + this.rateLimit.windowMs };
+      this.windows.set(apiKey, window);
+    }
+    window.count++;
+
+    headers['X-RateLimit-Limit'] = String(this.rateLimit.limit);
+    headers['X-RateLimit-Remaining'] = String(Math.max(0, this.rateLimit.limit - window.count));
+    headers['X-RateLimit-Reset'] = String(Math.ceil(window.resetAt / 1000));
+
+    if (window.count > this.rateLimit.limit) {
+      headers['Retry-After'] = String(Math.ceil((window.resetAt - now) / 1000));
+      return errorResponse(429, 'rate_limit_error', 'rate_limit_exceeded', 'Rate limit exceeded');
+    }
+    return undefined;
+  }
+
+  /**
+   * Return the stored response for a repeated Idempotency-Key
+   */
+  private async replay(
+    req: IncomingMessage,
+    method: string,
+    path: string,
+    run: () => Promise<EmulatorResponse>
+  ): Promise<EmulatorResponse> {
+    const key = req.headers['idempotency-key'];
+    if (method !== 'POST' || typeof key !== 'string') {
+      return run();
+    }
+
+    const cacheKey = `${req.headers.authorization ?? ''} ${path} ${key}`;
+    const stored = this.idempotentResponses.get(cacheKey);
+    if (stored) {
+      return { ...stored, headers: { ...stored.headers, 'Idempotent-Replayed': 'true' } };
+    }
+
+    const result = await run();
+    if (result.status < 500) {
+      this.idempotentResponses.set(cacheKey, result);
+    }
+    return result;
+  }
+
+  private async route(method: string, url: URL, body: Record<string, unknown>): Promise<EmulatorResponse> {
+    const path = url.pathname;
+    const fake = this.fake;
+    const keyMatch = /^\/v1\/keys\/([^/]+)$/.exec(path);
+    const statusMatch = /^\/v1\/generate\/([^/]+)$/.exec(path);
+
+    switch (`${method} ${keyMatch ? '/v1/keys/:id' : statusMatch ? '/v1/generate/:tx' : path}`) {
+      case 'POST /v1/generate':
+        return ok(await fake.generate(body as unknown as GenerateParams));
+      case 'GET /v1/generate/:tx':
+        return ok(await this.onChainStatus(decodeURIComponent(statusMatch![1]!)));
+      case 'GET /v1/models':
+        return ok({ models: await fake.getModels() });
+      case 'GET /v1/price':
+        return ok(await fake.getPrices());
+      case 'GET /v1/balance':
+        return ok(await fake.getBalance());
+      case 'GET /v1/history':
+        return ok(await fake.getHistory({
+          limit: parseNumber(url.searchParams.get('limit')),
+          offset: parseNumber(url.searchParams.get('offset')),
+        }));
+      case 'POST /v1/keys':
+        return ok(await fake.createKey(body as unknown as CreateKeyParams));
+      case 'GET /v1/keys':
+        return ok(await fake.listKeys());
+      case 'DELETE /v1/keys/:id':
+        await fake.revokeKey(decodeURIComponent(keyMatch![1]!));
+        return ok({ success: true });
+      case 'PATCH /v1/keys/:id':
+        await fake.updateKeyName(decodeURIComponent(keyMatch![1]!), String(body.name ?? ''));
+        return ok({ success: true });
+      case 'POST /v1/prompts': {
+        const submission = await fake.submitPrompt(body as unknown as SubmitPromptParams);
+        this.submissions.set(submission.submissionId, submission.model);
+        return ok(submission);
+      }
+      case 'POST /v1/sessions':
+        return this.createSession(body);
+      case 'POST /_emulator/payments':
+        if (typeof body.txSignature !== 'string' || !body.txSignature) {
+          return errorResponse(400, 'invalid_request_error', 'missing_field', 'Missing required field: txSignature', 'txSignature');
+        }
+        this.confirmPayment(body.txSignature, body as Parameters<PeerCatEmulator['confirmPayment']>[1]);
+        return ok({ success: true });
+      default:
+        return errorResponse(404, 'not_found', 'route_not_found', `No route for ${method} ${path}`);
+    }
+  }
+
+  /**
+   * Issue a session token for a signed session message; signatures are not verified
+   */
+  private createSession(body: Record<string, unknown>): EmulatorResponse {
+    for (const field of ['message', 'signature', 'publicKey']) {
+      if (typeof body[field] !== 'string' || !body[field]) {
+        return errorResponse(400, 'invalid_request_error', 'missing_field', `Missing required field: ${field}`, field);
+      }
+    }
+
+    const token = `sess_emulator_${this.nextSessionId++}`;
+    const expiresAt = Date.now() + this.sessionTtl;
+    this.sessions.set(token, expiresAt);
+    const session: SessionToken = { token, expiresAt: new Date(expiresAt).toISOString() };
+    return ok(session);
+  }
+
+  /**
+   * Status of a confirmed payment at this moment, else whatever the fake has scripted
+   */
+  private async onChainStatus(txSignature: string): Promise<OnChainGenerationStatus> {
+    const payment = this.payments.get(txSignature);
+    if (!payment) {
+      return this.fake.getOnChainStatus(txSignature);
+    }
+
+    const elapsed = Date.now() - payment.confirmedAt;
+    const status: OnChainGenerationStatus = {
+      txSignature,
+      status: 'pending',
+      model: payment.model,
+      createdAt: new Date(payment.confirmedAt).toISOString(),
+    };
+
+    if (elapsed < this.pendingMs) {
+      return { ...status, message: 'Payment confirmed, waiting to start' };
+    }
+    if (elapsed < this.pendingMs + this.processingMs) {
+      return { ...status, status: 'processing', message: 'Generating image' };
+    }
+
+    const completedAt = new Date(payment.confirmedAt + this.pendingMs + this.processingMs).toISOString();
+    switch (payment.outcome) {
+      case 'failed':
+        return { ...status, status: 'failed', completedAt, error: 'Generation failed' };
+      case 'refunded':
+        return { ...status, status: 'refunded', completedAt, message: 'Generation failed, payment refunded' };
+      default:
+        return {
+          ...status,
+          status: 'completed',
+          completedAt,
+          imageUrl: `https://fake.peerc.at/images/${encodeURIComponent(txSignature)}.png`,
+          ipfsHash: `QmFake${txSignature.slice(0, 16)}`,
+        };
+    }
+  }
+}
+
+function ok(body: unknown): EmulatorResponse {
+  return { status: 200, body };
+}
+
+function errorResponse(
+  status: number,
+  type: string,
+  code: string,
+  message: string,
+  param: string | null = null
+): EmulatorResponse {
+  const body: ApiErrorResponse = { error: { type, code, message, param } };
+  return { status, body };
+}
+
+/**
+ * Map an error thrown by the fake to the API's error response
+ */
+function toErrorResponse(error: unknown): EmulatorResponse {
+  if (error instanceof PeerCatError) {
+    return errorResponse(error.status, error.type, error.code, error.message, error.param);
+  }
+  return errorResponse(500, 'api_error', 'internal_error', error instanceof Error ? error.message : 'Internal error');
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) {
+    return {};
+  }
+
+  try {
+    const body: unknown = JSON.parse(text);
+    return typeof body === 'object' && body !== null ? body as Record<string, unknown> : {};
+  } catch {
+    throw new PeerCatError('Request body is not valid JSON', 'invalid_request_error', 'invalid_json', null, 400);
+  }
+}
+
+function parseNumber(value: string | null): number | undefined {
+  return value === null || value === '' ? undefined : Number(value);
+}
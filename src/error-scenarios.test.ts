@@ -339,7 +339,7 @@ describe('Error Scenarios', () => {
         },
       }, { ok: false, status: 400 }));
 
-      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 0 });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 0, validateRequests: false });
 
       try {
         await client.generate({ prompt: 'test', model: 'invalid' });
@@ -407,7 +407,7 @@ describe('Error Scenarios', () => {
         error: { type: 'insufficient_credits', code: 'insufficient_balance', message: 'Not enough' },
       }, { ok: false, status: 402 }));
 
-      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 0 });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 0, validateRequests: false });
 
       try {
         await client.generate({ prompt: 'test' });
@@ -601,7 +601,7 @@ describe('Edge Cases', () => {
         usage: { creditsUsed: 0.05, balanceRemaining: 9.95 },
       }));
 
-      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateRequests: false });
       const specialPrompt = 'Test with "quotes" and <tags> and émojis 🎨';
 
       const result = await client.generate({ prompt: specialPrompt });
@@ -621,7 +621,7 @@ describe('Edge Cases', () => {
         usage: { creditsUsed: 0.05, balanceRemaining: 9.95 },
       }));
 
-      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateRequests: false });
       const unicodePrompt = '日本語テスト 中文测试 한국어테스트';
 
       const result = await client.generate({ prompt: unicodePrompt });
@@ -685,14 +685,14 @@ describe('Edge Cases', () => {
     it('should send API key in Authorization header', async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
 
-      const client = new PeerCat({ apiKey: 'pcat_live_test123', fetch: mockFetch });
+      const client = new PeerCat({ apiKey: 'pcat_test_abc123', fetch: mockFetch });
       await client.getBalance();
 
       expect(mockFetch).toHaveBeenCalledWith(
         expect.any(String),
         expect.objectContaining({
           headers: expect.objectContaining({
-            Authorization: 'Bearer pcat_live_test123',
+            Authorization: 'Bearer pcat_test_abc123',
           }),
         })
       );
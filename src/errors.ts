@@ -3,6 +3,7 @@
  */
 
 import type { ApiErrorResponse } from './types';
+import type { SchemaIssue } from './schema';
 
 /**
  * Rate limit information from response headers
@@ -14,7 +15,7 @@ export interface RateLimitInfo {
   remaining?: number;
   /** Unix timestamp when the rate limit resets */
   reset?: number;
-  /** Seconds to wait before retrying (from Retry-After header) */
+  /** Seconds to wait before retrying (from Retry-After header, seconds or HTTP-date) */
   retryAfter?: number;
 }
 
@@ -34,11 +35,30 @@ export function parseRateLimitHeaders(headers: Headers): RateLimitInfo {
   if (reset) info.reset = parseInt(reset, 10);
 
   const retryAfter = headers.get('Retry-After');
-  if (retryAfter) info.retryAfter = parseInt(retryAfter, 10);
+  if (retryAfter) {
+    const seconds = parseRetryAfter(retryAfter);
+    if (seconds !== undefined) info.retryAfter = seconds;
+  }
 
   return info;
 }
 
+/**
+ * Parse a Retry-After value given as delay-seconds or an HTTP-date
+ */
+function parseRetryAfter(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
 /**
  * Base error class for all PeerCat SDK errors
  */
@@ -179,3 +199,75 @@ export class TimeoutError extends PeerCatError {
     this.name = 'TimeoutError';
   }
 }
+
+/**
+ * Request aborted by the caller's AbortSignal
+ */
+export class RequestAbortedError extends PeerCatError {
+  constructor(message: string = 'Request was aborted', cause?: unknown) {
+    super(message, 'abort_error', 'request_aborted', null, 0);
+    this.name = 'RequestAbortedError';
+    if (cause !== undefined) {
+      this.cause = cause;
+    }
+  }
+}
+
+/**
+ * Circuit breaker is open: the request was not sent
+ */
+export class CircuitOpenError extends PeerCatError {
+  /** Unix timestamp (ms) when the breaker will let a trial request through */
+  readonly retryAt?: number;
+
+  constructor(message: string = 'Circuit breaker is open', retryAt?: number) {
+    super(message, 'circuit_open_error', 'circuit_open', null, 0);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Request queue is full: the request was not sent
+ */
+export class QueueFullError extends PeerCatError {
+  constructor(message: string = 'Request queue is full') {
+    super(message, 'queue_full_error', 'queue_full', null, 0);
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * Response body does not match the documented schema
+ */
+export class ResponseValidationError extends PeerCatError {
+  /** JSON path of the first offending value, e.g. `$.credits` */
+  readonly path: string;
+  /** Every schema violation found in the response */
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[], status: number = 200) {
+    const first = issues[0] ?? { path: '$', message: 'invalid response' };
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(
+      `Invalid API response at ${first.path}: ${first.message}${more}`,
+      'validation_error',
+      'invalid_response',
+      null,
+      status
+    );
+    this.name = 'ResponseValidationError';
+    this.path = first.path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Cassette replay could not serve a request (missing fixture or no matching recording)
+ */
+export class CassetteError extends PeerCatError {
+  constructor(message: string, code: string) {
+    super(message, 'cassette_error', code, null, 0);
+    this.name = 'CassetteError';
+  }
+}
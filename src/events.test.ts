@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PeerCat } from './client';
+import { DefaultRetryPolicy } from './retry';
+import { InvalidRequestError, RateLimitError } from './errors';
+import type { PeerCatEventName, PeerCatEvents } from './events';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+const rateLimited = () => createMockResponse({
+  error: { type: 'rate_limit_error', code: 'rate_limit_exceeded', message: 'Rate limited', param: null },
+}, {
+  ok: false,
+  status: 429,
+  headers: { 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '0', 'Retry-After': '0' },
+});
+
+// Record every event emitted by a client, in order
+function recordEvents(client: PeerCat) {
+  const events: Array<{ name: PeerCatEventName; payload: PeerCatEvents[PeerCatEventName] }> = [];
+  const names: PeerCatEventName[] = ['request', 'response', 'retry', 'error', 'rateLimited'];
+  for (const name of names) {
+    client.on(name, (payload) => events.push({ name, payload }));
+  }
+  return events;
+}
+
+describe('Lifecycle events', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  const createClient = (maxRetries = 2) => new PeerCat({
+    apiKey: 'test',
+    fetch: mockFetch,
+    maxRetries,
+    retryPolicy: new DefaultRetryPolicy({ baseDelay: 0 }),
+    validateRequests: false,
+  });
+
+  it('should emit request and response for a successful call', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }, {
+      headers: { 'X-Request-Id': 'req_1', 'X-RateLimit-Remaining': '99' },
+    }));
+
+    const client = createClient();
+    const events = recordEvents(client);
+    await client.getBalance();
+
+    expect(events.map(e => e.name)).toEqual(['request', 'response']);
+    expect(events[0]!.payload).toEqual({ method: 'GET', path: '/v1/balance', attempt: 0 });
+    expect(events[1]!.payload).toMatchObject({
+      method: 'GET',
+      path: '/v1/balance',
+      attempt: 0,
+      status: 200,
+      requestId: 'req_1',
+      rateLimit: { remaining: 99 },
+    });
+    expect((events[1]!.payload as PeerCatEvents['response']).durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should emit rateLimited and retry before a successful retry', async () => {
+    mockFetch
+      .mockResolvedValueOnce(rateLimited())
+      .mockResolvedValueOnce(createMockResponse({ id: 'gen_123' }));
+
+    const client = createClient();
+    const events = recordEvents(client);
+    await client.generate({ prompt: 'test' });
+
+    expect(events.map(e => e.name)).toEqual(['request', 'rateLimited', 'retry', 'request', 'response']);
+    expect(events[1]!.payload).toEqual({
+      method: 'POST',
+      path: '/v1/generate',
+      attempt: 0,
+      rateLimit: { limit: 100, remaining: 0, retryAfter: 0 },
+      retryAfter: 0,
+    });
+    expect(events[2]!.payload).toMatchObject({
+      attempt: 0,
+      reason: 'rate_limit_exceeded',
+      delayMs: 0,
+    });
+    expect((events[2]!.payload as PeerCatEvents['retry']).error).toBeInstanceOf(RateLimitError);
+    expect(events[4]!.payload).toMatchObject({ attempt: 1, status: 200 });
+  });
+
+  it('should emit error once when the call fails for good', async () => {
+    mockFetch.mockResolvedValue(rateLimited());
+
+    const client = createClient(1);
+    const events = recordEvents(client);
+    await expect(client.getBalance()).rejects.toThrow(RateLimitError);
+
+    const errors = events.filter(e => e.name === 'error');
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.payload).toMatchObject({
+      method: 'GET',
+      path: '/v1/balance',
+      attempt: 1,
+      rateLimit: { remaining: 0 },
+    });
+    expect(events.filter(e => e.name === 'retry')).toHaveLength(1);
+  });
+
+  it('should emit error without retry for non-retryable errors', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      error: { type: 'invalid_request_error', code: 'invalid_prompt', message: 'Bad prompt', param: 'prompt' },
+    }, { ok: false, status: 400 }));
+
+    const client = createClient();
+    const events = recordEvents(client);
+    await expect(client.generate({ prompt: 'test' })).rejects.toThrow(InvalidRequestError);
+
+    expect(events.map(e => e.name)).toEqual(['request', 'error']);
+    expect(events[1]!.payload).toMatchObject({ attempt: 0, rateLimit: undefined });
+  });
+
+  it('should register hooks from config and support off()', async () => {
+    mockFetch.mockResolvedValue(createMockResponse({ credits: 10 }));
+    const onResponse = vi.fn();
+    const onRequest = vi.fn();
+
+    const client = new PeerCat({
+      apiKey: 'test',
+      fetch: mockFetch,
+      hooks: { response: onResponse, request: onRequest },
+    });
+    await client.getBalance();
+    client.off('request', onRequest);
+    await client.getBalance();
+
+    expect(onResponse).toHaveBeenCalledTimes(2);
+    expect(onRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore errors thrown by listeners', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+    const client = createClient().on('response', () => {
+      throw new Error('listener failed');
+    });
+
+    await expect(client.getBalance()).resolves.toEqual({ credits: 10 });
+  });
+});
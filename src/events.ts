@@ -0,0 +1,133 @@
+/**
+ * PeerCat SDK Lifecycle Events
+ */
+
+import type { RateLimitInfo } from './errors';
+import type { HttpMethod } from './types';
+
+/**
+ * Fields shared by every lifecycle event
+ */
+export interface RequestEventBase {
+  /** HTTP method */
+  method: HttpMethod;
+  /** API path (including query string), e.g. `/v1/generate` */
+  path: string;
+  /** Attempt number, starting at 0 */
+  attempt: number;
+}
+
+/**
+ * Emitted before each attempt is sent
+ */
+export type RequestEvent = RequestEventBase;
+
+/**
+ * Emitted when an attempt succeeds
+ */
+export interface ResponseEvent extends RequestEventBase {
+  /** HTTP status code */
+  status: number;
+  /** Duration of this attempt in ms */
+  durationMs: number;
+  /** Rate limit headers of the response */
+  rateLimit: RateLimitInfo;
+  /** Request ID from the X-Request-Id header */
+  requestId: string | null;
+}
+
+/**
+ * Emitted when a failed attempt is about to be retried
+ */
+export interface RetryEvent extends RequestEventBase {
+  /** Error that caused the retry */
+  error: Error;
+  /** Short reason for the retry (error code or name) */
+  reason: string;
+  /** Delay before the next attempt in ms */
+  delayMs: number;
+  /** Duration of the failed attempt in ms */
+  durationMs: number;
+}
+
+/**
+ * Emitted once when a call fails for good (after any retries)
+ */
+export interface ErrorEvent extends RequestEventBase {
+  /** Error the call rejects with */
+  error: Error;
+  /** Total time spent on the call in ms */
+  durationMs: number;
+  /** Rate limit information, when the error carries it */
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * Emitted when the API responds with 429 Too Many Requests
+ */
+export interface RateLimitedEvent extends RequestEventBase {
+  /** Rate limit headers of the response */
+  rateLimit: RateLimitInfo;
+  /** Seconds to wait before retrying, if the server said so */
+  retryAfter?: number;
+}
+
+/**
+ * Lifecycle events emitted by the client, keyed by name
+ */
+export interface PeerCatEvents {
+  request: RequestEvent;
+  response: ResponseEvent;
+  retry: RetryEvent;
+  error: ErrorEvent;
+  rateLimited: RateLimitedEvent;
+}
+
+export type PeerCatEventName = keyof PeerCatEvents;
+
+export type PeerCatEventListener<E extends PeerCatEventName> = (event: PeerCatEvents[E]) => void;
+
+/**
+ * Listeners to register when the client is created
+ */
+export type PeerCatHooks = {
+  [E in PeerCatEventName]?: PeerCatEventListener<E>;
+};
+
+/**
+ * Minimal typed event emitter. Listener errors are swallowed so telemetry
+ * can never break a request.
+ */
+export class EventEmitter {
+  private readonly listeners = new Map<PeerCatEventName, Set<(event: never) => void>>();
+
+  on<E extends PeerCatEventName>(event: E, listener: PeerCatEventListener<E>): void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as (event: never) => void);
+  }
+
+  off<E extends PeerCatEventName>(event: E, listener: PeerCatEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener as (event: never) => void);
+  }
+
+  has(event: PeerCatEventName): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  emit<E extends PeerCatEventName>(event: E, payload: PeerCatEvents[E]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    for (const listener of [...set]) {
+      try {
+        (listener as PeerCatEventListener<E>)(payload);
+      } catch {
+        // Ignore listener errors
+      }
+    }
+  }
+}
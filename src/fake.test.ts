@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import { FakePeerCat, FAKE_MODELS } from './fake';
+import { PeerCat } from './client';
+import {
+  InsufficientCreditsError,
+  InvalidRequestError,
+  NotFoundError,
+  RateLimitError,
+  RequestAbortedError,
+} from './errors';
+import type { PeerCatClient } from './types';
+
+// Example of application code written against the interface
+async function generateThumbnail(client: PeerCatClient, prompt: string): Promise<string> {
+  const { credits } = await client.getBalance();
+  if (credits < 0.5) {
+    return 'placeholder.png';
+  }
+  const result = await client.generate({ prompt });
+  return result.imageUrl;
+}
+
+describe('FakePeerCat', () => {
+  it('should be usable wherever a PeerCatClient is expected', async () => {
+    const clients: PeerCatClient[] = [new FakePeerCat(), new PeerCat({ apiKey: 'test', fetch: async () => new Response() })];
+
+    expect(clients).toHaveLength(2);
+    await expect(generateThumbnail(new FakePeerCat({ credits: 0.1 }), 'A red fox')).resolves.toBe('placeholder.png');
+    await expect(generateThumbnail(new FakePeerCat(), 'A red fox')).resolves.toMatch(/^https:\/\/fake\.peerc\.at\//);
+  });
+
+  describe('generation and balance', () => {
+    it('should charge the model price on generate()', async () => {
+      const peercat = new FakePeerCat({ credits: 1 });
+
+      const result = await peercat.generate({ prompt: 'A red fox', model: 'imagen-4.0-generate-001' });
+
+      expect(result.model).toBe('imagen-4.0-generate-001');
+      expect(result.mode).toBe('production');
+      expect(result.usage).toEqual({ creditsUsed: 0.4, balanceRemaining: 0.6 });
+      expect(await peercat.getBalance()).toEqual({
+        credits: 0.6,
+        totalDeposited: 1,
+        totalSpent: 0.4,
+        totalWithdrawn: 0,
+        totalGenerated: 1,
+      });
+    });
+
+    it('should not charge demo generations', async () => {
+      const peercat = new FakePeerCat({ credits: 0 });
+
+      const result = await peercat.generate({ prompt: 'A red fox', mode: 'demo' });
+
+      expect(result.usage.creditsUsed).toBe(0);
+      expect(result.ipfsHash).toBeNull();
+    });
+
+    it('should throw InsufficientCreditsError when the balance is too low', async () => {
+      const peercat = new FakePeerCat({ credits: 0.1 });
+
+      await expect(peercat.generate({ prompt: 'A red fox' })).rejects.toThrow(InsufficientCreditsError);
+
+      peercat.addCredits(1);
+      await expect(peercat.generate({ prompt: 'A red fox' })).resolves.toMatchObject({ model: 'stable-diffusion-xl' });
+    });
+
+    it('should validate prompts and models against the catalog', async () => {
+      const peercat = new FakePeerCat();
+
+      await expect(peercat.generate({ prompt: '' })).rejects.toThrow(InvalidRequestError);
+      await expect(peercat.generate({ prompt: 'test', model: 'dall-e' })).rejects.toMatchObject({ param: 'model' });
+      await expect(peercat.submitPrompt({ prompt: 'x'.repeat(1001), model: 'imagen-4.0-generate-001' }))
+        .rejects.toMatchObject({ param: 'prompt' });
+    });
+  });
+
+  describe('catalog and prices', () => {
+    it('should serve the model catalog and derived prices', async () => {
+      const peercat = new FakePeerCat({ solPrice: 100, slippageTolerance: 0.1 });
+
+      expect(await peercat.getModels()).toEqual(FAKE_MODELS);
+
+      const prices = await peercat.getPrices();
+      expect(prices.solPrice).toBe(100);
+      expect(prices.models[0]).toEqual({
+        model: 'stable-diffusion-xl',
+        priceUsd: 0.28,
+        priceSol: expect.closeTo(0.0028, 10),
+        priceSolWithSlippage: expect.closeTo(0.00308, 10),
+      });
+    });
+
+    it('should accept a custom catalog', async () => {
+      const peercat = new FakePeerCat({ models: [{ ...FAKE_MODELS[1]!, id: 'custom-model', priceUsd: 1 }] });
+
+      const result = await peercat.generate({ prompt: 'test' });
+
+      expect(result.model).toBe('custom-model');
+      expect(result.usage.creditsUsed).toBe(1);
+    });
+  });
+
+  describe('history', () => {
+    it('should paginate history newest first', async () => {
+      const peercat = new FakePeerCat();
+      const ids: string[] = [];
+      for (let i = 0; i < 5; i++) {
+        ids.push((await peercat.generate({ prompt: `image ${i}` })).id);
+      }
+
+      const page = await peercat.getHistory({ limit: 2, offset: 1 });
+
+      expect(page.items.map(item => item.requestId)).toEqual([ids[3], ids[2]]);
+      expect(page.pagination).toEqual({ total: 5, limit: 2, offset: 1, hasMore: true });
+      expect((await peercat.getHistory({ offset: 4 })).pagination.hasMore).toBe(false);
+    });
+  });
+
+  describe('keys', () => {
+    it('should create, list, rename and revoke keys', async () => {
+      const peercat = new FakePeerCat();
+
+      const created = await peercat.createKey({ name: 'CI', message: 'Sign in', signature: 'sig', publicKey: 'pub' });
+      expect(created.key).toMatch(/^pcat_test_/);
+      expect(created.keyPrefix).toBe(created.key.slice(0, 12));
+
+      await peercat.updateKeyName(created.id, 'Deploys');
+      await peercat.revokeKey(created.id);
+
+      const { keys } = await peercat.listKeys();
+      expect(keys).toEqual([expect.objectContaining({ id: created.id, name: 'Deploys', revoked: true })]);
+    });
+
+    it('should reject unknown keys and incomplete requests', async () => {
+      const peercat = new FakePeerCat();
+
+      await expect(peercat.revokeKey('key_missing')).rejects.toThrow(NotFoundError);
+      await expect(peercat.createKey({ message: 'Sign in', signature: '', publicKey: 'pub' }))
+        .rejects.toMatchObject({ param: 'signature' });
+    });
+  });
+
+  describe('on-chain payments', () => {
+    it('should quote submissions and report scripted statuses', async () => {
+      const peercat = new FakePeerCat({ solPrice: 100, slippageTolerance: 0 });
+
+      const submission = await peercat.submitPrompt({ prompt: 'A red fox' });
+      expect(submission.requiredAmount).toEqual({ sol: 0.0028, lamports: 2800000, usd: 0.28 });
+
+      await expect(peercat.getOnChainStatus('tx_1')).rejects.toThrow(NotFoundError);
+
+      peercat.setOnChainStatus({ txSignature: 'tx_1', status: 'completed', imageUrl: 'https://example.com/a.png' });
+      await expect(peercat.getOnChainStatus('tx_1')).resolves.toMatchObject({ status: 'completed' });
+    });
+  });
+
+  describe('scripted failures', () => {
+    it('should fail the next call with the given error', async () => {
+      const peercat = new FakePeerCat();
+      const error = new RateLimitError('Slow down', 'rate_limit_exceeded', { retryAfter: 5 });
+
+      peercat.failNext(error);
+
+      await expect(peercat.getBalance()).rejects.toBe(error);
+      await expect(peercat.getBalance()).resolves.toBeDefined();
+    });
+
+    it('should target a method and repeat', async () => {
+      const peercat = new FakePeerCat();
+
+      peercat.failNext(new InsufficientCreditsError('No credits', 'insufficient_credits'), {
+        method: 'generate',
+        times: 2,
+      });
+
+      await expect(peercat.getBalance()).resolves.toBeDefined();
+      await expect(peercat.generate({ prompt: 'a' })).rejects.toThrow(InsufficientCreditsError);
+      await expect(peercat.generate({ prompt: 'b' })).rejects.toThrow(InsufficientCreditsError);
+      await expect(peercat.generate({ prompt: 'c' })).resolves.toBeDefined();
+    });
+
+    it('should not spend credits on failed calls', async () => {
+      const peercat = new FakePeerCat({ credits: 1 });
+      peercat.failNext(new Error('boom'));
+
+      await expect(peercat.generate({ prompt: 'test' })).rejects.toThrow('boom');
+
+      expect((await peercat.getBalance()).credits).toBe(1);
+    });
+  });
+
+  it('should record calls and honor aborted signals', async () => {
+    const peercat = new FakePeerCat();
+
+    await peercat.getHistory({ limit: 10 });
+    await expect(peercat.getBalance({ signal: AbortSignal.abort() })).rejects.toThrow(RequestAbortedError);
+
+    expect(peercat.calls.map(call => call.method)).toEqual(['getHistory', 'getBalance']);
+    expect(peercat.calls[0]!.args[0]).toEqual({ limit: 10 });
+  });
+});
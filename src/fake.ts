@@ -0,0 +1,405 @@
+/**
+ * PeerCat SDK Fake Client
+ *
+ * In-memory implementation of the API for unit tests: no HTTP involved.
+ */
+
+import {
+  InsufficientCreditsError,
+  InvalidRequestError,
+  NotFoundError,
+  RequestAbortedError,
+} from './errors';
+import { DEFAULT_MODEL, validatePromptRequest } from './validation';
+import type {
+  PeerCatClient,
+  Model,
+  PriceResponse,
+  GenerateParams,
+  GenerateResult,
+  Balance,
+  HistoryParams,
+  HistoryItem,
+  HistoryResponse,
+  CreateKeyParams,
+  CreateKeyResult,
+  ApiKey,
+  KeysResponse,
+  SubmitPromptParams,
+  PromptSubmission,
+  OnChainGenerationStatus,
+  RequestOptions,
+} from './types';
+
+/**
+ * Models in the fake catalog unless others are given
+ */
+export const FAKE_MODELS: Model[] = [
+  {
+    id: 'stable-diffusion-xl',
+    name: 'Stable Diffusion XL',
+    description: 'High quality image generation',
+    provider: 'stability',
+    maxPromptLength: 2000,
+    outputFormat: 'png',
+    outputResolution: '1024x1024',
+    priceUsd: 0.28,
+  },
+  {
+    id: 'imagen-4.0-generate-001',
+    name: 'Imagen 4',
+    description: 'Photorealistic image generation',
+    provider: 'google',
+    maxPromptLength: 1000,
+    outputFormat: 'png',
+    outputResolution: '1024x1024',
+    priceUsd: 0.4,
+  },
+];
+
+const FAKE_TREASURY = 'FakeTreasury11111111111111111111111111111111';
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 100;
+const SUBMISSION_TTL = 15 * 60 * 1000;
+
+export interface FakePeerCatOptions {
+  /** Model catalog (default: FAKE_MODELS) */
+  models?: Model[];
+  /** Starting credit balance in USD (default: 10) */
+  credits?: number;
+  /** SOL price in USD (default: 150) */
+  solPrice?: number;
+  /** Slippage tolerance for on-chain payments (default: 0.05) */
+  slippageTolerance?: number;
+  /** Existing API keys returned by `listKeys()` (default: none) */
+  keys?: ApiKey[];
+}
+
+/**
+ * A call made to the fake, for assertions
+ */
+export interface FakeCall {
+  method: keyof PeerCatClient;
+  args: unknown[];
+}
+
+interface ScriptedFailure {
+  error: Error;
+  method?: keyof PeerCatClient;
+  times: number;
+}
+
+/**
+ * In-memory PeerCat client for testing code that depends on `PeerCatClient`
+ *
+ * Keeps a model catalog, a credit balance that `generate()` spends, paginated
+ * history, API keys and on-chain statuses. Failures can be scripted with
+ * `failNext()`.
+ *
+ * @example
+ * ```typescript
+ * const peercat = new FakePeerCat({ credits: 1 });
+ * peercat.failNext(new RateLimitError('Slow down', 'rate_limit_exceeded'), { method: 'generate' });
+ *
+ * await expect(app.render(peercat)).rejects.toThrow(RateLimitError);
+ * ```
+ */
+export class FakePeerCat implements PeerCatClient {
+  /** Every call made, in order */
+  readonly calls: FakeCall[] = [];
+
+  private readonly models: Model[];
+  private readonly solPrice: number;
+  private readonly slippageTolerance: number;
+  private readonly balance: Balance;
+  private readonly history: HistoryItem[] = [];
+  private readonly keys = new Map<string, ApiKey>();
+  private readonly onChainStatuses = new Map<string, OnChainGenerationStatus>();
+  private readonly failures: ScriptedFailure[] = [];
+  private nextId = 1;
+
+  constructor(options: FakePeerCatOptions = {}) {
+    this.models = (options.models ?? FAKE_MODELS).map(model => ({ ...model }));
+    this.solPrice = options.solPrice ?? 150;
+    this.slippageTolerance = options.slippageTolerance ?? 0.05;
+
+    const credits = options.credits ?? 10;
+    this.balance = {
+      credits,
+      totalDeposited: credits,
+      totalSpent: 0,
+      totalWithdrawn: 0,
+      totalGenerated: 0,
+    };
+
+    for (const key of options.keys ?? []) {
+      this.keys.set(key.id, { ...key });
+    }
+  }
+
+  // ============ Scripting ============
+
+  /**
+   * Make upcoming calls fail with `error`
+   *
+   * @param error - Error to throw, e.g. a RateLimitError or InsufficientCreditsError
+   * @param options - Only fail calls to `method`, and fail `times` calls (default: 1)
+   * @returns The fake, for chaining
+   */
+  failNext(error: Error, options: { method?: keyof PeerCatClient; times?: number } = {}): this {
+    this.failures.push({ error, method: options.method, times: options.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Add credits to the balance, as a deposit would
+   */
+  addCredits(amount: number): this {
+    this.balance.credits += amount;
+    this.balance.totalDeposited += amount;
+    return this;
+  }
+
+  /**
+   * Set the status returned by `getOnChainStatus()` for a transaction
+   */
+  setOnChainStatus(status: OnChainGenerationStatus): this {
+    this.onChainStatuses.set(status.txSignature, { ...status });
+    return this;
+  }
+
+  // ============ PeerCatClient ============
+
+  async generate(params: GenerateParams, options?: RequestOptions): Promise<GenerateResult> {
+    this.begin('generate', [params, options], options);
+    validatePromptRequest(params, this.catalog());
+
+    const model = this.resolveModel(params.model);
+    const mode = params.mode ?? 'production';
+    const cost = mode === 'demo' ? 0 : model.priceUsd;
+
+    if (cost > this.balance.credits) {
+      throw new InsufficientCreditsError(
+        `Insufficient credits: ${model.id} costs $${cost}, balance is $${this.balance.credits}`,
+        'insufficient_credits'
+      );
+    }
+
+    this.balance.credits = round(this.balance.credits - cost);
+    this.balance.totalSpent = round(this.balance.totalSpent + cost);
+    this.balance.totalGenerated++;
+
+    const id = this.createId('gen');
+    const now = new Date().toISOString();
+    this.history.unshift({
+      id: this.createId('usage'),
+      endpoint: '/v1/generate',
+      model: model.id,
+      creditsUsed: cost,
+      requestId: id,
+      status: 'completed',
+      createdAt: now,
+      completedAt: now,
+    });
+
+    return {
+      id,
+      imageUrl: `https://fake.peerc.at/images/${id}.png`,
+      ipfsHash: mode === 'demo' ? null : `QmFake${id}`,
+      model: model.id,
+      mode,
+      usage: {
+        creditsUsed: cost,
+        balanceRemaining: this.balance.credits,
+      },
+    };
+  }
+
+  async getModels(options?: RequestOptions): Promise<Model[]> {
+    this.begin('getModels', [options], options);
+    return this.models.map(model => ({ ...model }));
+  }
+
+  async getPrices(options?: RequestOptions): Promise<PriceResponse> {
+    this.begin('getPrices', [options], options);
+    return {
+      solPrice: this.solPrice,
+      slippageTolerance: this.slippageTolerance,
+      updatedAt: new Date().toISOString(),
+      treasury: FAKE_TREASURY,
+      models: this.models.map(model => {
+        const priceSol = model.priceUsd / this.solPrice;
+        return {
+          model: model.id,
+          priceUsd: model.priceUsd,
+          priceSol,
+          priceSolWithSlippage: priceSol * (1 + this.slippageTolerance),
+        };
+      }),
+    };
+  }
+
+  async getBalance(options?: RequestOptions): Promise<Balance> {
+    this.begin('getBalance', [options], options);
+    return { ...this.balance };
+  }
+
+  async getHistory(params?: HistoryParams, options?: RequestOptions): Promise<HistoryResponse> {
+    this.begin('getHistory', [params, options], options);
+
+    const limit = Math.min(params?.limit ?? DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+    const offset = params?.offset ?? 0;
+    return {
+      items: this.history.slice(offset, offset + limit).map(item => ({ ...item })),
+      pagination: {
+        total: this.history.length,
+        limit,
+        offset,
+        hasMore: offset + limit < this.history.length,
+      },
+    };
+  }
+
+  async createKey(params: CreateKeyParams, options?: RequestOptions): Promise<CreateKeyResult> {
+    this.begin('createKey', [params, options], options);
+
+    for (const field of ['message', 'signature', 'publicKey'] as const) {
+      if (!params[field]) {
+        throw new InvalidRequestError(`Missing required field: ${field}`, 'missing_field', field);
+      }
+    }
+
+    const id = this.createId('key');
+    const key = `pcat_test_${id}`;
+    const apiKey: ApiKey = {
+      id,
+      name: params.name ?? null,
+      keyPrefix: key.slice(0, 12),
+      environment: 'test',
+      rateLimitTier: 'standard',
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revoked: false,
+    };
+    this.keys.set(id, apiKey);
+
+    return {
+      id,
+      key,
+      keyPrefix: apiKey.keyPrefix,
+      name: apiKey.name,
+      environment: apiKey.environment,
+      createdAt: apiKey.createdAt,
+      warning: 'Store this key securely. It will not be shown again.',
+    };
+  }
+
+  async listKeys(options?: RequestOptions): Promise<KeysResponse> {
+    this.begin('listKeys', [options], options);
+    return { keys: [...this.keys.values()].map(key => ({ ...key })) };
+  }
+
+  async revokeKey(keyId: string, options?: RequestOptions): Promise<void> {
+    this.begin('revokeKey', [keyId, options], options);
+    this.findKey(keyId).revoked = true;
+  }
+
+  async updateKeyName(keyId: string, name: string, options?: RequestOptions): Promise<void> {
+    this.begin('updateKeyName', [keyId, name, options], options);
+    this.findKey(keyId).name = name;
+  }
+
+  async submitPrompt(params: SubmitPromptParams, options?: RequestOptions): Promise<PromptSubmission> {
+    this.begin('submitPrompt', [params, options], options);
+    validatePromptRequest(params, this.catalog());
+
+    const model = this.resolveModel(params.model);
+    // Trim floating point noise before rounding up to whole lamports
+    const lamports = Math.ceil(Number((model.priceUsd / this.solPrice * (1 + this.slippageTolerance) * 1e9).toFixed(3)));
+    const sol = lamports / 1e9;
+    const submissionId = this.createId('sub');
+
+    return {
+      submissionId,
+      promptHash: `hash_${submissionId}`,
+      paymentAddress: FAKE_TREASURY,
+      requiredAmount: {
+        sol,
+        lamports,
+        usd: model.priceUsd,
+      },
+      memo: submissionId,
+      model: model.id,
+      slippageTolerance: this.slippageTolerance,
+      expiresAt: new Date(Date.now() + SUBMISSION_TTL).toISOString(),
+      instructions: {
+        step1: `Send ${sol} SOL to ${FAKE_TREASURY}`,
+        step2: `Include memo: ${submissionId}`,
+      },
+    };
+  }
+
+  async getOnChainStatus(txSignature: string, options?: RequestOptions): Promise<OnChainGenerationStatus> {
+    this.begin('getOnChainStatus', [txSignature, options], options);
+
+    const status = this.onChainStatuses.get(txSignature);
+    if (!status) {
+      throw new NotFoundError('Generation not found', 'generation_not_found', 'txSignature');
+    }
+    return { ...status };
+  }
+
+  // ============ Internal Methods ============
+
+  /**
+   * Record a call, then apply abort and scripted failures
+   */
+  private begin(method: keyof PeerCatClient, args: unknown[], options?: RequestOptions): void {
+    this.calls.push({ method, args });
+
+    if (options?.signal?.aborted) {
+      throw new RequestAbortedError(undefined, options.signal.reason);
+    }
+
+    const index = this.failures.findIndex(failure => !failure.method || failure.method === method);
+    const failure = this.failures[index];
+    if (failure) {
+      failure.times--;
+      if (failure.times <= 0) {
+        this.failures.splice(index, 1);
+      }
+      throw failure.error;
+    }
+  }
+
+  private catalog(): Map<string, Model> {
+    return new Map(this.models.map(model => [model.id, model]));
+  }
+
+  private resolveModel(id: string | undefined): Model {
+    const model = this.models.find(m => m.id === (id ?? DEFAULT_MODEL)) ?? (id ? undefined : this.models[0]);
+    if (!model) {
+      throw new InvalidRequestError(`Unknown model '${id}'`, 'invalid_model', 'model');
+    }
+    return model;
+  }
+
+  private findKey(keyId: string): ApiKey {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new NotFoundError(`API key ${keyId} not found`, 'key_not_found', 'keyId');
+    }
+    return key;
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}_${String(this.nextId++).padStart(6, '0')}`;
+  }
+}
+
+/**
+ * Round to whole micro-dollars to avoid floating point drift in balances
+ */
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,113 @@
+/**
+ * PeerCat SDK File Rate Limit Store
+ *
+ * Node.js only; import it from `@peercat/sdk/node`.
+ */
+
+import { open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import type { RateLimitState, RateLimitStore } from './rate-limit-store';
+
+export interface FileRateLimitStoreOptions {
+  /** How long to wait for the lock before failing, in milliseconds (default: 5000) */
+  lockTimeout?: number;
+  /** Age after which a lock left by a crashed process is removed, in milliseconds (default: 10000) */
+  staleLockAge?: number;
+}
+
+/**
+ * Reference store for multiple processes on one machine
+ *
+ * State is kept as JSON in `path`; updates are serialized with an exclusive
+ * `<path>.lock` file and written atomically via rename.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileRateLimitStore('/tmp/peercat-rate-limit.json');
+ * const client = new PeerCat({
+ *   apiKey: process.env.PEERCAT_API_KEY!,
+ *   rateLimiter: new RateLimiter({ store }),
+ * });
+ * ```
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private readonly path: string;
+  private readonly lockPath: string;
+  private readonly lockTimeout: number;
+  private readonly staleLockAge: number;
+
+  constructor(path: string, options: FileRateLimitStoreOptions = {}) {
+    this.path = path;
+    this.lockPath = `${path}.lock`;
+    this.lockTimeout = options.lockTimeout ?? 5000;
+    this.staleLockAge = options.staleLockAge ?? 10000;
+  }
+
+  async get(key: string): Promise<RateLimitState> {
+    const states = await this.read();
+    return { ...states[key] };
+  }
+
+  async update(
+    key: string,
+    updater: (state: RateLimitState) => RateLimitState
+  ): Promise<RateLimitState> {
+    await this.lock();
+    try {
+      const states = await this.read();
+      const next = updater({ ...states[key] });
+      states[key] = next;
+
+      const tmpPath = `${this.path}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(states));
+      await rename(tmpPath, this.path);
+      return { ...next };
+    } finally {
+      await rm(this.lockPath, { force: true });
+    }
+  }
+
+  private async read(): Promise<Record<string, RateLimitState>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as Record<string, RateLimitState>;
+    } catch (error) {
+      // Missing or partially written file: start from empty state
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async lock(): Promise<void> {
+    const startedAt = Date.now();
+
+    for (;;) {
+      try {
+        const handle = await open(this.lockPath, 'wx');
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // Remove locks left behind by crashed processes
+      try {
+        const { mtimeMs } = await stat(this.lockPath);
+        if (Date.now() - mtimeMs > this.staleLockAge) {
+          await rm(this.lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        // Lock was released in the meantime
+        continue;
+      }
+
+      if (Date.now() - startedAt > this.lockTimeout) {
+        throw new Error(`Timed out waiting for rate limit store lock: ${this.lockPath}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 5 + Math.random() * 10));
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Idempotency Tests
+ *
+ * Runs the client against a stand-in server that charges credits once per
+ * Idempotency-Key and replays the stored result for repeated keys.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PeerCat } from './client';
+
+const PRICE = 0.28;
+
+// Stand-in for the generate endpoint; optionally fails after charging
+function createStandInServer(options: { failFirstAttempts?: number } = {}) {
+  let failuresLeft = options.failFirstAttempts ?? 0;
+  let balance = 10;
+  let generationCount = 0;
+  const results = new Map<string, unknown>();
+  const seenKeys: Array<string | undefined> = [];
+
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>;
+    const key = headers['Idempotency-Key'];
+    seenKeys.push(key);
+
+    const respond = (data: unknown, status = 200, extra: Record<string, string> = {}) => {
+      const responseHeaders = new Map(Object.entries(extra));
+      return {
+        ok: status < 400,
+        status,
+        json: () => Promise.resolve(JSON.parse(JSON.stringify(data))),
+        headers: { get: (name: string) => responseHeaders.get(name) ?? null },
+      };
+    };
+
+    if (key && results.has(key)) {
+      return respond(results.get(key), 200, { 'Idempotent-Replayed': 'true' });
+    }
+
+    // Charge and store the result before (possibly) failing the response
+    balance -= PRICE;
+    generationCount++;
+    const result = {
+      id: `gen_${generationCount}`,
+      imageUrl: `https://cdn.peerc.at/images/gen_${generationCount}.png`,
+      ipfsHash: null,
+      model: 'stable-diffusion-xl',
+      mode: 'production',
+      usage: { creditsUsed: PRICE, balanceRemaining: balance },
+    };
+    if (key) results.set(key, result);
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      return respond({
+        error: { type: 'api_error', code: 'bad_gateway', message: 'Bad gateway', param: null },
+      }, 502);
+    }
+
+    return respond(result);
+  });
+
+  return {
+    fetch,
+    seenKeys,
+    get balance() {
+      return balance;
+    },
+    get generationCount() {
+      return generationCount;
+    },
+  };
+}
+
+describe('Idempotency', () => {
+  it('should send an Idempotency-Key header on POST requests', async () => {
+    const server = createStandInServer();
+    const client = new PeerCat({ apiKey: 'test', fetch: server.fetch, validateRequests: false });
+
+    await client.generate({ prompt: 'test' });
+
+    expect(server.seenKeys[0]).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should not send an Idempotency-Key header on GET requests', async () => {
+    const server = createStandInServer();
+    const client = new PeerCat({ apiKey: 'test', fetch: server.fetch, validateRequests: false });
+
+    await client.getBalance();
+
+    expect(server.seenKeys[0]).toBeUndefined();
+  });
+
+  it('should generate a new key for each logical call', async () => {
+    const server = createStandInServer();
+    const client = new PeerCat({ apiKey: 'test', fetch: server.fetch, validateRequests: false });
+
+    await client.generate({ prompt: 'first' });
+    await client.generate({ prompt: 'second' });
+
+    expect(server.seenKeys[0]).not.toBe(server.seenKeys[1]);
+    expect(server.generationCount).toBe(2);
+  });
+
+  it('should reuse the key across retries and charge only once', async () => {
+    const server = createStandInServer({ failFirstAttempts: 1 });
+    const client = new PeerCat({ apiKey: 'test', fetch: server.fetch, maxRetries: 2, validateRequests: false });
+
+    const result = await client.generate({ prompt: 'test' });
+
+    expect(server.fetch).toHaveBeenCalledTimes(2);
+    expect(server.seenKeys[0]).toBe(server.seenKeys[1]);
+    expect(server.generationCount).toBe(1);
+    expect(server.balance).toBeCloseTo(10 - PRICE);
+    expect(result.id).toBe('gen_1');
+    expect(result.idempotentReplayed).toBe(true);
+  });
+
+  it('should use a caller-provided idempotency key', async () => {
+    const server = createStandInServer();
+    const client = new PeerCat({ apiKey: 'test', fetch: server.fetch, validateRequests: false });
+
+    const first = await client.generate({ prompt: 'test' }, { idempotencyKey: 'order-42' });
+    const second = await client.generate({ prompt: 'test' }, { idempotencyKey: 'order-42' });
+
+    expect(server.seenKeys).toEqual(['order-42', 'order-42']);
+    expect(server.generationCount).toBe(1);
+    expect(first.idempotentReplayed).toBeUndefined();
+    expect(second.idempotentReplayed).toBe(true);
+    expect(second.id).toBe(first.id);
+  });
+
+  it('should send an Idempotency-Key header for submitPrompt', async () => {
+    const server = createStandInServer();
+    const client = new PeerCat({ apiKey: 'test', fetch: server.fetch, validateRequests: false });
+
+    await client.submitPrompt({ prompt: 'test' }, { idempotencyKey: 'submission-1' });
+
+    expect(server.seenKeys).toEqual(['submission-1']);
+  });
+});
@@ -21,11 +21,136 @@
 
 // Main client
 export { PeerCat } from './client';
+export type { PeerCatWithResponse } from './client';
+
+// Environment configuration
+export { detectKeyEnvironment } from './config';
+
+// API key pools
+export { KeyPool } from './key-pool';
+export type { KeyPoolEntry, KeyPoolOptions, KeyStatus, KeyUsage } from './key-pool';
+
+// API key audits
+export { KeyAuditor, auditKeys, formatKeyAudit } from './key-audit';
+export type {
+  KeyFinding,
+  KeyAuditOptions,
+  AuditedKey,
+  KeyAuditReport,
+  KeyTarget,
+  KeyActionOptions,
+  KeyActionOutcome,
+  KeyActionResult,
+  KeyAuditClient,
+} from './key-audit';
+
+// Wallet signing
+export { Ed25519Signer, buildKeyCreationMessage, buildSessionMessage, signerPublicKey } from './wallet';
+export type { WalletSigner, KeyCreationMessageParams } from './wallet';
+export { encodeBase58, decodeBase58 } from './base58';
+
+// Wallet sessions
+export { WalletSession } from './session';
+export type { WalletSessionOptions, SessionExchange } from './session';
+
+// Fake client for tests
+export { FakePeerCat, FAKE_MODELS } from './fake';
+export type { FakePeerCatOptions, FakeCall } from './fake';
+
+// Retry policies
+export { DefaultRetryPolicy, RetryBudget, isRetryableError } from './retry';
+export type { RetryPolicy, DefaultRetryPolicyOptions, RetryBudgetOptions } from './retry';
+
+// Rate limiting
+export { RateLimiter } from './rate-limiter';
+export type {
+  RateLimiterOptions,
+  RateLimiterState,
+  TokenBucketOptions,
+} from './rate-limiter';
+export { MemoryRateLimitStore } from './rate-limit-store';
+export type { RateLimitState, RateLimitStore } from './rate-limit-store';
+
+// Circuit breaker
+export { CircuitBreaker } from './circuit-breaker';
+export type {
+  CircuitState,
+  CircuitBreakerOptions,
+  CircuitBreakerStats,
+} from './circuit-breaker';
+
+// Response caching
+export { ResponseCache, MemoryCacheStore } from './cache';
+export type {
+  CachedEndpoint,
+  CacheEntry,
+  CacheStore,
+  ResponseCacheOptions,
+} from './cache';
+
+// Scheduling
+export { RequestScheduler } from './scheduler';
+export type {
+  RequestSchedulerOptions,
+  RequestSchedulerStats,
+  ScheduleOptions,
+} from './scheduler';
+
+// Lifecycle events
+export type {
+  PeerCatEvents,
+  PeerCatEventName,
+  PeerCatEventListener,
+  PeerCatHooks,
+  RequestEventBase,
+  RequestEvent,
+  ResponseEvent,
+  RetryEvent,
+  ErrorEvent,
+  RateLimitedEvent,
+} from './events';
+
+// Tracing
+export { SpanKind, SpanStatusCode } from './tracing';
+export type {
+  Tracer,
+  Span,
+  SpanContext,
+  SpanAttributes,
+  SpanAttributeValue,
+  TraceContext,
+} from './tracing';
+
+// Logging
+export { ConsoleLogger, redact } from './logger';
+export type { Logger, LogLevel, LogFields } from './logger';
+
+// Response schemas
+export { schemas, findSchemaIssues } from './schema';
+export type { ObjectSchema, PropertySchema, SchemaIssue, SchemaType } from './schema';
+
+// Middleware
+export { composeMiddleware } from './middleware';
+export type {
+  Middleware,
+  MiddlewareNext,
+  MiddlewareRequest,
+  MiddlewareResponse,
+} from './middleware';
 
 // Types
 export type {
   // Configuration
   PeerCatConfig,
+  CredentialProvider,
+  PeerCatClient,
+  ResponseValidationMode,
+
+  // Requests
+  HttpMethod,
+  RequestOptions,
+  ResponseMeta,
+  ApiResponse,
 
   // Models
   ModelId,
@@ -49,9 +174,14 @@ export type {
   // API Keys
   CreateKeyParams,
   ApiKey,
+  KeyEnvironment,
   CreateKeyResult,
   KeysResponse,
 
+  // Sessions
+  CreateSessionParams,
+  SessionToken,
+
   // On-Chain Payments
   SubmitPromptParams,
   PromptSubmission,
@@ -71,6 +201,11 @@ export {
   NotFoundError,
   NetworkError,
   TimeoutError,
+  RequestAbortedError,
+  CircuitOpenError,
+  QueueFullError,
+  ResponseValidationError,
+  CassetteError,
   parseRateLimitHeaders,
 } from './errors';
 
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { KeyAuditor, auditKeys, formatKeyAudit } from './key-audit';
+import { FakePeerCat } from './fake';
+import { NetworkError, RequestAbortedError } from './errors';
+import type { ApiKey } from './types';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+function createKey(id: string, overrides: Partial<ApiKey> = {}): ApiKey {
+  return {
+    id,
+    name: id,
+    keyPrefix: `pcat_live_${id.slice(-2)}`,
+    environment: 'live',
+    rateLimitTier: 'standard',
+    createdAt: daysAgo(365),
+    lastUsedAt: daysAgo(1),
+    revoked: false,
+    ...overrides,
+  };
+}
+
+const KEYS: ApiKey[] = [
+  createKey('key_prod', { name: 'Production' }),
+  createKey('key_stale', { name: 'Old CI', createdAt: daysAgo(400), lastUsedAt: daysAgo(200) }),
+  createKey('key_unused', { name: null, createdAt: daysAgo(30), lastUsedAt: null }),
+  createKey('key_new', { createdAt: daysAgo(2), lastUsedAt: null }),
+  createKey('key_scratch', { name: 'Scratch', keyPrefix: 'pcat_test_sc', environment: 'test', createdAt: daysAgo(10) }),
+  createKey('key_gone', { createdAt: daysAgo(500), lastUsedAt: daysAgo(300), revoked: true }),
+];
+
+describe('Key audit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('auditKeys', () => {
+    it('should classify keys', () => {
+      const report = auditKeys(KEYS);
+
+      const findings = Object.fromEntries(report.keys.map(key => [key.id, key.findings]));
+      expect(findings).toEqual({
+        key_prod: [],
+        key_stale: ['stale'],
+        key_unused: ['unused'],
+        key_new: [],
+        key_scratch: ['test_key'],
+        key_gone: ['revoked'],
+      });
+      expect(report.summary).toEqual({
+        total: 6,
+        clean: 2,
+        findings: { unused: 1, stale: 1, test_key: 1, revoked: 1 },
+      });
+      expect(report).toMatchObject({ generatedAt: NOW.toISOString(), liveAccount: true, staleAfterDays: 90 });
+    });
+
+    it('should list keys oldest first with their ages', () => {
+      const report = auditKeys(KEYS);
+
+      expect(report.keys.map(key => key.id)).toEqual([
+        'key_gone', 'key_stale', 'key_prod', 'key_unused', 'key_scratch', 'key_new',
+      ]);
+      expect(report.keys[1]).toMatchObject({ ageDays: 400, daysSinceLastUse: 200 });
+      expect(report.keys[3]).toMatchObject({ ageDays: 30, daysSinceLastUse: null });
+    });
+
+    it('should apply custom thresholds', () => {
+      const report = auditKeys(KEYS, { staleAfterDays: 365, unusedGraceDays: 1, liveAccount: false });
+
+      expect(report.keys.filter(key => key.findings.length > 0).map(key => [key.id, key.findings])).toEqual([
+        ['key_gone', ['revoked']],
+        ['key_unused', ['unused']],
+        ['key_new', ['unused']],
+      ]);
+    });
+
+    it('should not flag test keys in a test-only account', () => {
+      const testKeys = [createKey('key_a', { environment: 'test' }), createKey('key_b', { environment: 'test' })];
+
+      expect(auditKeys(testKeys).summary.findings.test_key).toBe(0);
+    });
+  });
+
+  describe('formatKeyAudit', () => {
+    it('should render a summary and one aligned line per key', () => {
+      const text = formatKeyAudit(auditKeys(KEYS.slice(0, 3)));
+
+      expect(text).toBe([
+        'PeerCat key audit, 2026-01-01T00:00:00.000Z',
+        '3 keys: 1 clean, 1 unused, 1 stale',
+        '',
+        'pcat_live_le  Old CI      live  used 200 days ago  stale',
+        'pcat_live_od  Production  live  used 1 day ago',
+        'pcat_live_ed  (unnamed)   live  never used         unused',
+      ].join('\n'));
+    });
+  });
+
+  describe('KeyAuditor', () => {
+    it('should audit the account through the client', async () => {
+      const peercat = new FakePeerCat({ keys: KEYS });
+
+      const report = await new KeyAuditor(peercat, { staleAfterDays: 30 }).audit();
+
+      expect(report.staleAfterDays).toBe(30);
+      expect(report.summary.findings.stale).toBe(1);
+      expect(peercat.calls.map(call => call.method)).toEqual(['listKeys']);
+    });
+
+    it('should preview revocations without changing anything', async () => {
+      const peercat = new FakePeerCat({ keys: KEYS });
+      const auditor = new KeyAuditor(peercat);
+      const flagged = (await auditor.audit()).keys.filter(key => key.findings.length > 0);
+
+      const results = await auditor.revoke(flagged, { dryRun: true });
+
+      expect(results.map(result => [result.id, result.outcome, result.reason])).toEqual([
+        ['key_gone', 'skipped', 'already_revoked'],
+        ['key_stale', 'dry_run', undefined],
+        ['key_unused', 'dry_run', undefined],
+        ['key_scratch', 'dry_run', undefined],
+      ]);
+      expect(peercat.calls.map(call => call.method)).toEqual(['listKeys', 'listKeys']);
+    });
+
+    it('should revoke keys and report each result', async () => {
+      const peercat = new FakePeerCat({ keys: KEYS });
+      peercat.failNext(new NetworkError('Network request failed'), { method: 'revokeKey' });
+
+      const results = await new KeyAuditor(peercat).revoke(['key_stale', 'key_unused', 'key_missing', 'key_stale']);
+
+      expect(results).toEqual([
+        expect.objectContaining({ id: 'key_stale', keyPrefix: 'pcat_live_le', action: 'revoke', outcome: 'failed', error: expect.any(NetworkError) }),
+        { id: 'key_unused', keyPrefix: 'pcat_live_ed', action: 'revoke', outcome: 'applied' },
+        { id: 'key_missing', keyPrefix: null, action: 'revoke', outcome: 'skipped', reason: 'not_found' },
+      ]);
+      const { keys } = await peercat.listKeys();
+      expect(keys.filter(key => key.revoked).map(key => key.id)).toEqual(['key_unused', 'key_gone']);
+    });
+
+    it('should rename keys with a function of the key', async () => {
+      const peercat = new FakePeerCat({ keys: KEYS });
+
+      const results = await new KeyAuditor(peercat).rename(
+        ['key_stale', 'key_gone', 'key_prod'],
+        key => key.id === 'key_prod' ? 'Production' : `[stale] ${key.name ?? key.keyPrefix}`
+      );
+
+      expect(results.map(({ id, outcome, reason, previousName, name }) => ({ id, outcome, reason, previousName, name }))).toEqual([
+        { id: 'key_stale', outcome: 'applied', reason: undefined, previousName: 'Old CI', name: '[stale] Old CI' },
+        { id: 'key_gone', outcome: 'skipped', reason: 'revoked', previousName: 'key_gone', name: '[stale] key_gone' },
+        { id: 'key_prod', outcome: 'skipped', reason: 'unchanged', previousName: 'Production', name: 'Production' },
+      ]);
+      expect(peercat.calls.filter(call => call.method === 'updateKeyName')).toHaveLength(1);
+    });
+
+    it('should stop the batch when aborted and report what was done', async () => {
+      const peercat = new FakePeerCat({ keys: KEYS });
+      const controller = new AbortController();
+      peercat.failNext(new RequestAbortedError(), { method: 'revokeKey' });
+
+      const results = await new KeyAuditor(peercat).revoke(['key_stale', 'key_unused'], {
+        requestOptions: { signal: controller.signal },
+      });
+
+      expect(results).toEqual([
+        expect.objectContaining({ id: 'key_stale', outcome: 'failed', error: expect.any(RequestAbortedError) }),
+        expect.objectContaining({ id: 'key_unused', outcome: 'skipped', reason: 'aborted' }),
+      ]);
+      expect(peercat.calls.filter(call => call.method === 'revokeKey')).toHaveLength(1);
+    });
+
+    it('should skip the remaining keys once the signal aborts', async () => {
+      const peercat = new FakePeerCat({ keys: KEYS });
+      const controller = new AbortController();
+      const auditor = new KeyAuditor(peercat);
+
+      const results = await auditor.rename(['key_stale', 'key_unused'], (key) => {
+        controller.abort();
+        return `old-${key.name}`;
+      }, { dryRun: true, requestOptions: { signal: controller.signal } });
+
+      expect(results.map(result => [result.outcome, result.reason])).toEqual([
+        ['dry_run', undefined],
+        ['skipped', 'aborted'],
+      ]);
+    });
+  });
+});
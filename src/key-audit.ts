@@ -0,0 +1,323 @@
+/**
+ * PeerCat SDK API Key Audit
+ */
+
+import { RequestAbortedError } from './errors';
+import type { ApiKey, PeerCatClient, RequestOptions } from './types';
+
+/**
+ * Why a key was flagged
+ *
+ * - `unused`: never used, and older than the grace period
+ * - `stale`: not used for longer than `staleAfterDays`
+ * - `test_key`: a test key in an account that has live keys
+ * - `revoked`: already revoked
+ */
+export type KeyFinding = 'unused' | 'stale' | 'test_key' | 'revoked';
+
+export interface KeyAuditOptions {
+  /** Days without use after which a key is stale (default: 90) */
+  staleAfterDays?: number;
+  /** Days a never-used key may exist before it counts as unused (default: 7) */
+  unusedGraceDays?: number;
+  /** Flag test keys as out of place (default: when the account has an active live key) */
+  liveAccount?: boolean;
+}
+
+/**
+ * A listed key with its audit findings
+ */
+export interface AuditedKey extends ApiKey {
+  /** Empty for a key in good standing */
+  findings: KeyFinding[];
+  /** Whole days since creation */
+  ageDays: number;
+  /** Whole days since last use, or null if never used */
+  daysSinceLastUse: number | null;
+}
+
+export interface KeyAuditReport {
+  /** ISO timestamp of the audit */
+  generatedAt: string;
+  staleAfterDays: number;
+  unusedGraceDays: number;
+  liveAccount: boolean;
+  /** Every listed key, oldest first */
+  keys: AuditedKey[];
+  summary: {
+    total: number;
+    /** Active keys without findings */
+    clean: number;
+    findings: Record<KeyFinding, number>;
+  };
+}
+
+/**
+ * A key to act on, by ID or as listed
+ */
+export type KeyTarget = string | ApiKey;
+
+export interface KeyActionOptions {
+  /** Report what would change without changing anything (default: false) */
+  dryRun?: boolean;
+  /** Options for each API call, e.g. a signal to stop the batch */
+  requestOptions?: RequestOptions;
+}
+
+/**
+ * - `applied`: the change was made
+ * - `dry_run`: the change would be made
+ * - `skipped`: nothing was done, see `reason`
+ * - `failed`: the API call failed, see `error`
+ */
+export type KeyActionOutcome = 'applied' | 'dry_run' | 'skipped' | 'failed';
+
+/**
+ * Result of a bulk action for one key
+ */
+export interface KeyActionResult {
+  id: string;
+  /** Null when the key was not found */
+  keyPrefix: string | null;
+  action: 'revoke' | 'rename';
+  outcome: KeyActionOutcome;
+  /** Name before a rename */
+  previousName?: string | null;
+  /** Name after a rename */
+  name?: string;
+  /** Why the key was skipped; `aborted` when the batch was stopped before reaching it */
+  reason?: 'not_found' | 'already_revoked' | 'revoked' | 'unchanged' | 'aborted';
+  error?: Error;
+}
+
+/**
+ * The client methods the auditor uses; satisfied by `PeerCat` and `FakePeerCat`
+ */
+export type KeyAuditClient = Pick<PeerCatClient, 'listKeys' | 'revokeKey' | 'updateKeyName'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_STALE_AFTER_DAYS = 90;
+const DEFAULT_UNUSED_GRACE_DAYS = 7;
+
+const FINDINGS: KeyFinding[] = ['unused', 'stale', 'test_key', 'revoked'];
+
+/**
+ * Classify API keys by how they are used
+ *
+ * @param keys - Keys from `listKeys()`
+ * @param options - Thresholds
+ */
+export function auditKeys(keys: ApiKey[], options: KeyAuditOptions = {}): KeyAuditReport {
+  const now = Date.now();
+  const staleAfterDays = options.staleAfterDays ?? DEFAULT_STALE_AFTER_DAYS;
+  const unusedGraceDays = options.unusedGraceDays ?? DEFAULT_UNUSED_GRACE_DAYS;
+  const liveAccount = options.liveAccount ?? keys.some(key => key.environment === 'live' && !key.revoked);
+
+  const audited = keys.map((key): AuditedKey => {
+    const ageDays = daysBetween(key.createdAt, now);
+    const daysSinceLastUse = key.lastUsedAt ? daysBetween(key.lastUsedAt, now) : null;
+
+    const findings: KeyFinding[] = [];
+    if (key.revoked) {
+      findings.push('revoked');
+    } else {
+      if (daysSinceLastUse === null && ageDays >= unusedGraceDays) {
+        findings.push('unused');
+      }
+      if (daysSinceLastUse !== null && daysSinceLastUse >= staleAfterDays) {
+        findings.push('stale');
+      }
+      if (key.environment === 'test' && liveAccount) {
+        findings.push('test_key');
+      }
+    }
+    return { ...key, findings, ageDays, daysSinceLastUse };
+  }).sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+  const counts = Object.fromEntries(FINDINGS.map(finding => [
+    finding,
+    audited.filter(key => key.findings.includes(finding)).length,
+  ])) as Record<KeyFinding, number>;
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    staleAfterDays,
+    unusedGraceDays,
+    liveAccount,
+    keys: audited,
+    summary: {
+      total: audited.length,
+      clean: audited.filter(key => key.findings.length === 0).length,
+      findings: counts,
+    },
+  };
+}
+
+/**
+ * Render an audit report as plain text, one line per key
+ *
+ * @example
+ * ```text
+ * PeerCat key audit, 2026-01-01T00:00:00.000Z
+ * 3 keys: 1 clean, 1 stale, 1 revoked
+ *
+ * pcat_live_ab  Production  live  used 2 days ago
+ * pcat_live_cd  Old CI      live  used 200 days ago  stale
+ * pcat_test_ef  Scratch     test  never used         revoked
+ * ```
+ */
+export function formatKeyAudit(report: KeyAuditReport): string {
+  const { summary } = report;
+  const counts = FINDINGS
+    .filter(finding => summary.findings[finding] > 0)
+    .map(finding => `${summary.findings[finding]} ${finding}`);
+
+  const rows = report.keys.map(key => [
+    key.keyPrefix,
+    key.name ?? '(unnamed)',
+    key.environment,
+    key.daysSinceLastUse === null
+      ? 'never used'
+      : `used ${key.daysSinceLastUse} ${key.daysSinceLastUse === 1 ? 'day' : 'days'} ago`,
+    key.findings.join(', '),
+  ]);
+  const widths = [0, 1, 2, 3].map(column => Math.max(0, ...rows.map(row => row[column]!.length)));
+
+  return [
+    `PeerCat key audit, ${report.generatedAt}`,
+    [`${summary.total} keys: ${summary.clean} clean`, ...counts].join(', '),
+    '',
+    ...rows.map(row => row.map((cell, i) => cell.padEnd(widths[i] ?? 0)).join('  ').trimEnd()),
+  ].join('\n');
+}
+
+/**
+ * Audits an account's API keys and revokes or renames them in bulk
+ *
+ * Bulk actions run one key at a time so they stay within rate limits. A
+ * failure is reported for its key and the batch carries on. Aborting the
+ * signal in `requestOptions` stops it: the key in flight fails and the rest
+ * are skipped, so the results still cover every target.
+ *
+ * @example
+ * ```typescript
+ * const auditor = new KeyAuditor(client, { staleAfterDays: 90 });
+ * const report = await auditor.audit();
+ * console.log(formatKeyAudit(report));
+ *
+ * const stale = report.keys.filter(key => key.findings.includes('stale'));
+ * console.table(await auditor.revoke(stale, { dryRun: true }));
+ * ```
+ */
+export class KeyAuditor {
+  private readonly client: KeyAuditClient;
+  private readonly options: KeyAuditOptions;
+
+  constructor(client: KeyAuditClient, options: KeyAuditOptions = {}) {
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * List the account's keys and classify them
+   */
+  async audit(requestOptions?: RequestOptions): Promise<KeyAuditReport> {
+    const { keys } = await this.client.listKeys(requestOptions);
+    return auditKeys(keys, this.options);
+  }
+
+  /**
+   * Revoke keys, skipping those already revoked
+   */
+  async revoke(targets: KeyTarget[], options: KeyActionOptions = {}): Promise<KeyActionResult[]> {
+    return this.apply('revoke', targets, options, async (key) => {
+      const result: KeyActionResult = { id: key.id, keyPrefix: key.keyPrefix, action: 'revoke', outcome: 'applied' };
+      if (key.revoked) {
+        return { ...result, outcome: 'skipped', reason: 'already_revoked' };
+      }
+      if (options.dryRun) {
+        return { ...result, outcome: 'dry_run' };
+      }
+      await this.client.revokeKey(key.id, options.requestOptions);
+      return result;
+    });
+  }
+
+  /**
+   * Rename keys, skipping revoked keys and keys that already have the name
+   *
+   * @param name - New name, or a function of the key, e.g. to add a prefix
+   */
+  async rename(
+    targets: KeyTarget[],
+    name: string | ((key: ApiKey) => string),
+    options: KeyActionOptions = {}
+  ): Promise<KeyActionResult[]> {
+    return this.apply('rename', targets, options, async (key) => {
+      const newName = typeof name === 'function' ? name(key) : name;
+      const result: KeyActionResult = {
+        id: key.id,
+        keyPrefix: key.keyPrefix,
+        action: 'rename',
+        outcome: 'applied',
+        previousName: key.name,
+        name: newName,
+      };
+      if (key.revoked) {
+        return { ...result, outcome: 'skipped', reason: 'revoked' };
+      }
+      if (key.name === newName) {
+        return { ...result, outcome: 'skipped', reason: 'unchanged' };
+      }
+      if (options.dryRun) {
+        return { ...result, outcome: 'dry_run' };
+      }
+      await this.client.updateKeyName(key.id, newName, options.requestOptions);
+      return result;
+    });
+  }
+
+  /**
+   * Run `action` for each target against the current key listing
+   */
+  private async apply(
+    name: KeyActionResult['action'],
+    targets: KeyTarget[],
+    options: KeyActionOptions,
+    action: (key: ApiKey) => Promise<KeyActionResult>
+  ): Promise<KeyActionResult[]> {
+    // Act on current state rather than a possibly outdated report
+    const { keys } = await this.client.listKeys(options.requestOptions);
+    const byId = new Map(keys.map(key => [key.id, key]));
+
+    const signal = options.requestOptions?.signal;
+    let aborted = false;
+
+    const results: KeyActionResult[] = [];
+    for (const target of new Set(targets.map(t => (typeof t === 'string' ? t : t.id)))) {
+      const key = byId.get(target);
+      if (!key) {
+        results.push({ id: target, keyPrefix: null, action: name, outcome: 'skipped', reason: 'not_found' });
+        continue;
+      }
+
+      if (aborted || signal?.aborted) {
+        aborted = true;
+        results.push({ id: key.id, keyPrefix: key.keyPrefix, action: name, outcome: 'skipped', reason: 'aborted' });
+        continue;
+      }
+
+      try {
+        results.push(await action(key));
+      } catch (error) {
+        aborted = error instanceof RequestAbortedError;
+        results.push({ id: key.id, keyPrefix: key.keyPrefix, action: name, outcome: 'failed', error: error as Error });
+      }
+    }
+    return results;
+  }
+}
+
+function daysBetween(timestamp: string, now: number): number {
+  return Math.max(0, Math.floor((now - Date.parse(timestamp)) / DAY_MS));
+}
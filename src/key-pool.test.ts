@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { KeyPool } from './key-pool';
+import { PeerCat } from './client';
+import { PeerCatEmulator } from './emulator';
+import { AuthenticationError, NetworkError, RateLimitError } from './errors';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+const unauthorized = () => createMockResponse({
+  error: { type: 'authentication_error', code: 'invalid_api_key', message: 'Invalid API key', param: null },
+}, { ok: false, status: 401 });
+
+const rateLimited = (headers: Record<string, string> = {}) => createMockResponse({
+  error: { type: 'rate_limit_error', code: 'rate_limit_exceeded', message: 'Rate limit exceeded', param: null },
+}, { ok: false, status: 429, headers });
+
+function authorizationOf(call: unknown[]): string {
+  return (call[1] as { headers: Record<string, string> }).headers.Authorization!.replace('Bearer ', '');
+}
+
+describe('KeyPool', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('selection', () => {
+    it('should rotate evenly across keys', () => {
+      const pool = new KeyPool(['pcat_test_a', 'pcat_test_b', 'pcat_test_c']);
+
+      const picks = Array.from({ length: 6 }, () => pool.acquire());
+
+      expect(picks).toEqual([
+        'pcat_test_a', 'pcat_test_b', 'pcat_test_c',
+        'pcat_test_a', 'pcat_test_b', 'pcat_test_c',
+      ]);
+    });
+
+    it('should spread requests in proportion to weight', () => {
+      const pool = new KeyPool([
+        { key: 'pcat_test_standard' },
+        { key: 'pcat_test_pro', weight: 3 },
+      ]);
+
+      const picks = Array.from({ length: 8 }, () => pool.acquire());
+
+      expect(picks.filter(key => key === 'pcat_test_pro')).toHaveLength(6);
+      expect(picks.filter(key => key === 'pcat_test_standard')).toHaveLength(2);
+    });
+
+    it('should ignore duplicates and reject empty pools or bad weights', () => {
+      expect(new KeyPool(['pcat_test_a', 'pcat_test_a', '']).keys).toEqual(['pcat_test_a']);
+      expect(() => new KeyPool([])).toThrow(AuthenticationError);
+      expect(() => new KeyPool([{ key: 'pcat_test_a', weight: 0 }])).toThrow(RangeError);
+    });
+  });
+
+  describe('benching and dropping', () => {
+    it('should bench a rate limited key until its reset time', () => {
+      vi.useFakeTimers();
+      const pool = new KeyPool(['pcat_test_a', 'pcat_test_b']);
+      const reset = Math.ceil(Date.now() / 1000) + 30;
+
+      pool.recordFailure(pool.acquire(), new RateLimitError('Slow down', 'rate_limit_exceeded', { reset }));
+
+      expect(pool.usage()[0]).toMatchObject({ status: 'benched', rateLimited: 1, benchedUntil: reset * 1000 });
+      expect([pool.acquire(), pool.acquire()]).toEqual(['pcat_test_b', 'pcat_test_b']);
+
+      vi.setSystemTime(reset * 1000);
+      expect(pool.usage()[0]).toMatchObject({ status: 'active', benchedUntil: null });
+      expect(pool.acquire()).toBe('pcat_test_a');
+    });
+
+    it('should fall back to Retry-After, then the bench time', () => {
+      vi.useFakeTimers();
+      const pool = new KeyPool(['pcat_test_a', 'pcat_test_b'], { benchTime: 5000 });
+      const now = Date.now();
+
+      pool.recordFailure('pcat_test_a', new RateLimitError('Slow down', 'rate_limit_exceeded', { retryAfter: 10 }));
+      pool.recordFailure('pcat_test_b', new RateLimitError('Slow down', 'rate_limit_exceeded'));
+
+      expect(pool.usage().map(usage => usage.benchedUntil)).toEqual([now + 10000, now + 5000]);
+    });
+
+    it('should throw RateLimitError until the first key returns when all are benched', () => {
+      vi.useFakeTimers();
+      const pool = new KeyPool(['pcat_test_a', 'pcat_test_b']);
+
+      pool.recordFailure('pcat_test_a', new RateLimitError('Slow down', 'rate_limit_exceeded', { retryAfter: 20 }));
+      pool.recordFailure('pcat_test_b', new RateLimitError('Slow down', 'rate_limit_exceeded', { retryAfter: 5 }));
+
+      expect(pool.hasAvailable()).toBe(false);
+      expect(() => pool.acquire()).toThrow(expect.objectContaining({
+        name: 'RateLimitError',
+        code: 'pool_rate_limited',
+        retryAfter: 5,
+      }));
+    });
+
+    it('should drop a key for good on AuthenticationError', () => {
+      const pool = new KeyPool(['pcat_test_a', 'pcat_test_b']);
+
+      pool.recordFailure('pcat_test_a', new AuthenticationError('Invalid API key', 'invalid_api_key'));
+      pool.recordFailure('pcat_test_b', new NetworkError('Network request failed'));
+
+      expect(pool.size).toBe(1);
+      expect(pool.usage()).toEqual([
+        expect.objectContaining({ keyPrefix: 'pcat_test_a', status: 'dropped', failures: 1 }),
+        expect.objectContaining({ keyPrefix: 'pcat_test_b', status: 'active', failures: 1 }),
+      ]);
+
+      pool.recordFailure('pcat_test_b', new AuthenticationError('Invalid API key', 'invalid_api_key'));
+      expect(() => pool.acquire()).toThrow(expect.objectContaining({ code: 'no_valid_keys' }));
+    });
+
+    it('should not expose full keys in usage reports', () => {
+      const pool = new KeyPool([{ key: 'pcat_test_verysecretkey', name: 'ci' }]);
+
+      expect(JSON.stringify(pool.usage())).not.toContain('verysecretkey');
+      expect(pool.usage()[0]).toMatchObject({ keyPrefix: 'pcat_test_ve', name: 'ci', weight: 1 });
+    });
+  });
+
+  describe('client integration', () => {
+    it('should fail over to another key on RateLimitError without using the retry budget', async () => {
+      mockFetch
+        .mockResolvedValueOnce(rateLimited({ 'Retry-After': '30' }))
+        .mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+      const onRetry = vi.fn();
+      const pool = new KeyPool(['pcat_test_a', 'pcat_test_b']);
+
+      const client = new PeerCat({ apiKey: pool, fetch: mockFetch, maxRetries: 0, hooks: { retry: onRetry } });
+      await client.getBalance();
+
+      expect(mockFetch.mock.calls.map(authorizationOf)).toEqual(['pcat_test_a', 'pcat_test_b']);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ reason: 'rate_limit_exceeded', delayMs: 0 }));
+      expect(pool.usage()).toEqual([
+        expect.objectContaining({ status: 'benched', requests: 1, rateLimited: 1 }),
+        expect.objectContaining({ status: 'active', requests: 1, successes: 1 }),
+      ]);
+    });
+
+    it('should count and back off retries after a failover like any others', async () => {
+      const unavailable = () => createMockResponse({
+        error: { type: 'api_error', code: 'http_503', message: 'Service unavailable', param: null },
+      }, { ok: false, status: 503 });
+      mockFetch
+        .mockResolvedValueOnce(rateLimited({ 'Retry-After': '30' }))
+        .mockResolvedValue(unavailable());
+      const retryPolicy = { shouldRetry: vi.fn(() => true), getDelay: vi.fn(() => 1) };
+
+      const client = new PeerCat({
+        apiKey: new KeyPool(['pcat_test_a', 'pcat_test_b']),
+        fetch: mockFetch,
+        maxRetries: 2,
+        retryPolicy,
+      });
+
+      await expect(client.getBalance()).rejects.toThrow('Service unavailable');
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(retryPolicy.shouldRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([0, 1]);
+      expect(retryPolicy.getDelay.mock.calls.map(([, attempt]) => attempt)).toEqual([0, 1]);
+    });
+
+    it('should drop rejected keys and carry on with the rest', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: { headers: Record<string, string> }) =>
+        init.headers.Authorization === 'Bearer pcat_test_revoked' ? unauthorized() : createMockResponse({ credits: 10 })
+      );
+      const pool = new KeyPool(['pcat_test_revoked', 'pcat_test_good']);
+
+      const client = new PeerCat({ apiKey: pool, fetch: mockFetch });
+      await client.getBalance();
+      await client.getBalance();
+
+      expect(mockFetch.mock.calls.map(authorizationOf)).toEqual(['pcat_test_revoked', 'pcat_test_good', 'pcat_test_good']);
+      expect(pool.size).toBe(1);
+    });
+
+    it('should throw AuthenticationError once every key is rejected', async () => {
+      mockFetch.mockResolvedValue(unauthorized());
+
+      const client = new PeerCat({ apiKey: new KeyPool(['pcat_test_a', 'pcat_test_b']), fetch: mockFetch });
+
+      await expect(client.getBalance()).rejects.toThrow(AuthenticationError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should check every pooled key against the live key guard', () => {
+      vi.stubEnv('NODE_ENV', 'test');
+
+      expect(() => new PeerCat({ apiKey: new KeyPool(['pcat_test_a', 'pcat_live_b']), fetch: mockFetch }))
+        .toThrow(expect.objectContaining({ code: 'live_key_in_test' }));
+      expect(new PeerCat({ apiKey: new KeyPool(['pcat_test_a', 'pcat_test_b']), fetch: mockFetch }).environment)
+        .toBe('test');
+
+      vi.unstubAllEnvs();
+    });
+
+    it('should spread load over an emulator that rate-limits per key', async () => {
+      const emulator = new PeerCatEmulator({
+        apiKeys: ['pcat_test_a', 'pcat_test_b', 'pcat_test_c'],
+        rateLimit: { limit: 2, windowMs: 60000 },
+      });
+      const baseUrl = await emulator.start();
+
+      try {
+        const pool = new KeyPool(['pcat_test_a', 'pcat_test_b', 'pcat_test_c']);
+        const client = new PeerCat({ apiKey: pool, baseUrl, maxRetries: 0 });
+
+        // Six requests fit in three keys' limits of two
+        for (let i = 0; i < 6; i++) {
+          await client.getBalance();
+        }
+        expect(pool.usage().map(usage => usage.successes)).toEqual([2, 2, 2]);
+
+        // The seventh tries each key once, benching all of them
+        await expect(client.getBalance()).rejects.toThrow(RateLimitError);
+        expect(pool.usage().map(usage => usage.status)).toEqual(['benched', 'benched', 'benched']);
+
+        // Later calls fail fast with the pool's own rate limit until a key resets
+        const error = await client.getBalance().catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(RateLimitError);
+        expect((error as RateLimitError).code).toBe('pool_rate_limited');
+        expect((error as RateLimitError).retryAfter).toBeGreaterThan(0);
+        expect(pool.usage().map(usage => usage.requests)).toEqual([3, 3, 3]);
+      } finally {
+        await emulator.stop();
+      }
+    });
+  });
+});
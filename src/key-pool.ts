@@ -0,0 +1,225 @@
+/**
+ * PeerCat SDK API Key Pool
+ */
+
+import { AuthenticationError, RateLimitError } from './errors';
+
+export interface KeyPoolEntry {
+  /** API key */
+  key: string;
+  /** Label shown in usage reports */
+  name?: string;
+  /** Relative share of requests, e.g. higher for keys on a higher rate limit tier (default: 1) */
+  weight?: number;
+}
+
+export interface KeyPoolOptions {
+  /** Time in ms to bench a rate limited key when the response has no reset time (default: 60000) */
+  benchTime?: number;
+}
+
+/**
+ * - `active`: receiving requests
+ * - `benched`: rate limited, back in rotation at `benchedUntil`
+ * - `dropped`: rejected by the API, never used again
+ */
+export type KeyStatus = 'active' | 'benched' | 'dropped';
+
+/**
+ * Usage of one pooled key
+ */
+export interface KeyUsage {
+  /** First 12 characters of the key, like `ApiKey.keyPrefix` */
+  keyPrefix: string;
+  name?: string;
+  weight: number;
+  status: KeyStatus;
+  /** Attempts sent with this key */
+  requests: number;
+  successes: number;
+  /** Attempts answered with a rate limit error */
+  rateLimited: number;
+  /** Other failed attempts, including the rejection that dropped the key */
+  failures: number;
+  /** Unix timestamp (ms) when a benched key returns to rotation */
+  benchedUntil: number | null;
+}
+
+interface PooledKey extends KeyUsage {
+  key: string;
+}
+
+const DEFAULT_BENCH_TIME = 60000;
+
+/**
+ * Spreads requests across several API keys with failover
+ *
+ * Each attempt uses the available key with the fewest requests relative to
+ * its weight. A key answered with a `RateLimitError` is benched until its
+ * rate limit resets; a key answered with an `AuthenticationError` is dropped
+ * for good. Either way the client fails over to another key at once.
+ *
+ * @example
+ * ```typescript
+ * const pool = new KeyPool([
+ *   { key: 'pcat_live_aaa', name: 'standard' },
+ *   { key: 'pcat_live_bbb', name: 'pro tier', weight: 4 },
+ * ]);
+ * const client = new PeerCat({ apiKey: pool });
+ *
+ * console.table(pool.usage());
+ * ```
+ */
+export class KeyPool {
+  private readonly entries: PooledKey[];
+  private readonly benchTime: number;
+
+  constructor(keys: Array<string | KeyPoolEntry>, options: KeyPoolOptions = {}) {
+    const seen = new Set<string>();
+    this.entries = [];
+    for (const entry of keys) {
+      const { key, name, weight = 1 } = typeof entry === 'string' ? { key: entry } : entry;
+      if (!key || seen.has(key)) {
+        continue;
+      }
+      if (!(weight > 0)) {
+        throw new RangeError(`Key pool weight must be positive, got ${weight}`);
+      }
+      seen.add(key);
+      this.entries.push({
+        key,
+        keyPrefix: key.slice(0, 12),
+        name,
+        weight,
+        status: 'active',
+        requests: 0,
+        successes: 0,
+        rateLimited: 0,
+        failures: 0,
+        benchedUntil: null,
+      });
+    }
+
+    if (this.entries.length === 0) {
+      throw new AuthenticationError('Key pool needs at least one API key', 'missing_api_key', 'apiKey');
+    }
+
+    this.benchTime = options.benchTime ?? DEFAULT_BENCH_TIME;
+  }
+
+  /** Every key in the pool, including dropped ones */
+  get keys(): string[] {
+    return this.entries.map(entry => entry.key);
+  }
+
+  /** Number of keys not dropped */
+  get size(): number {
+    return this.entries.filter(entry => entry.status !== 'dropped').length;
+  }
+
+  /**
+   * Whether any key can take a request right now
+   */
+  hasAvailable(): boolean {
+    const now = Date.now();
+    return this.entries.some(entry => this.isAvailable(entry, now));
+  }
+
+  /**
+   * Pick the key for the next attempt
+   *
+   * @throws RateLimitError when every remaining key is benched, with `retryAfter` until the first returns
+   * @throws AuthenticationError when every key has been dropped
+   */
+  acquire(): string {
+    const now = Date.now();
+    let best: PooledKey | undefined;
+    for (const entry of this.entries) {
+      if (this.isAvailable(entry, now) && (!best || entry.requests / entry.weight < best.requests / best.weight)) {
+        best = entry;
+      }
+    }
+
+    if (best) {
+      best.status = 'active';
+      best.benchedUntil = null;
+      best.requests++;
+      return best.key;
+    }
+
+    const benched = this.entries.filter(entry => entry.status === 'benched');
+    if (benched.length === 0) {
+      throw new AuthenticationError('Every API key in the pool was rejected', 'no_valid_keys', 'apiKey');
+    }
+
+    const until = Math.min(...benched.map(entry => entry.benchedUntil ?? now));
+    throw new RateLimitError('Every API key in the pool is rate limited', 'pool_rate_limited', {
+      reset: Math.ceil(until / 1000),
+      retryAfter: Math.max(1, Math.ceil((until - now) / 1000)),
+    });
+  }
+
+  /**
+   * Record a successful attempt with `key`
+   */
+  recordSuccess(key: string): void {
+    const entry = this.find(key);
+    if (entry) {
+      entry.successes++;
+    }
+  }
+
+  /**
+   * Record a failed attempt with `key`, benching or dropping it as the error warrants
+   */
+  recordFailure(key: string, error: Error): void {
+    const entry = this.find(key);
+    if (!entry) {
+      return;
+    }
+
+    if (error instanceof RateLimitError) {
+      entry.rateLimited++;
+      entry.status = 'benched';
+      entry.benchedUntil = this.benchedUntil(error);
+    } else {
+      entry.failures++;
+      if (error instanceof AuthenticationError) {
+        entry.status = 'dropped';
+        entry.benchedUntil = null;
+      }
+    }
+  }
+
+  /**
+   * Per-key usage, in pool order
+   */
+  usage(): KeyUsage[] {
+    const now = Date.now();
+    return this.entries.map(({ key: _key, ...usage }) =>
+      usage.status === 'benched' && (usage.benchedUntil ?? 0) <= now
+        ? { ...usage, status: 'active', benchedUntil: null }
+        : { ...usage }
+    );
+  }
+
+  private isAvailable(entry: PooledKey, now: number): boolean {
+    return entry.status === 'active' || (entry.status === 'benched' && (entry.benchedUntil ?? 0) <= now);
+  }
+
+  private benchedUntil(error: RateLimitError): number {
+    const now = Date.now();
+    const reset = error.rateLimitInfo?.reset;
+    if (reset !== undefined && reset * 1000 > now) {
+      return reset * 1000;
+    }
+    if (error.retryAfter !== undefined) {
+      return now + error.retryAfter * 1000;
+    }
+    return now + this.benchTime;
+  }
+
+  private find(key: string): PooledKey | undefined {
+    return this.entries.find(entry => entry.key === key);
+  }
+}
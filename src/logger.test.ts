@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PeerCat } from './client';
+import { DefaultRetryPolicy } from './retry';
+import { parseLogLevel, redact, type Logger } from './logger';
+import { WalletSession } from './session';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+function createLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } satisfies Logger;
+}
+
+describe('Logging', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('redact', () => {
+    it('should always redact keys, tokens and signatures', () => {
+      expect(redact({
+        headers: { Authorization: 'Bearer pcat_live_secret', 'Idempotency-Key': 'abc' },
+        body: { message: 'Sign in', signature: 'sig58', publicKey: 'pub58' },
+        data: { key: 'pcat_live_new', keyPrefix: 'pcat_live_ne' },
+        session: { token: 'sess_secret', expiresAt: '2026-01-01T00:00:00.000Z' },
+      })).toEqual({
+        headers: { Authorization: '[REDACTED]', 'Idempotency-Key': 'abc' },
+        body: { message: 'Sign in', signature: '[REDACTED]', publicKey: 'pub58' },
+        data: { key: '[REDACTED]', keyPrefix: 'pcat_live_ne' },
+        session: { token: '[REDACTED]', expiresAt: '2026-01-01T00:00:00.000Z' },
+      });
+    });
+
+    it('should redact prompts only when asked', () => {
+      const body = { prompt: 'a secret idea', model: 'flux-pro' };
+
+      expect(redact(body)).toEqual(body);
+      expect(redact(body, { prompts: true })).toEqual({ prompt: '[REDACTED]', model: 'flux-pro' });
+    });
+
+    it('should not modify the original value', () => {
+      const headers = { Authorization: 'Bearer pcat_live_secret' };
+
+      redact({ headers });
+
+      expect(headers.Authorization).toBe('Bearer pcat_live_secret');
+    });
+  });
+
+  describe('parseLogLevel', () => {
+    it('should parse levels and flags', () => {
+      expect(parseLogLevel('warn')).toBe('warn');
+      expect(parseLogLevel('DEBUG')).toBe('debug');
+      expect(parseLogLevel('1')).toBe('debug');
+      expect(parseLogLevel('0')).toBeUndefined();
+      expect(parseLogLevel('')).toBeUndefined();
+      expect(parseLogLevel(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('client integration', () => {
+    it('should log requests and responses without secrets', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        id: 'key_123',
+        key: 'pcat_live_brand_new',
+        keyPrefix: 'pcat_live_br',
+      }));
+
+      const logger = createLogger();
+      const client = new PeerCat({ apiKey: 'pcat_test_secret', fetch: mockFetch, logger, logLevel: 'debug' });
+
+      await client.createKey({ message: 'Sign in', signature: 'wallet_signature', publicKey: 'pub58' });
+
+      const output = JSON.stringify([logger.debug.mock.calls, logger.info.mock.calls]);
+      expect(output).not.toContain('pcat_test_secret');
+      expect(output).not.toContain('pcat_live_brand_new');
+      expect(output).not.toContain('wallet_signature');
+
+      expect(logger.debug).toHaveBeenCalledWith('Sending request', expect.objectContaining({
+        method: 'POST',
+        url: 'https://api.peerc.at/v1/keys',
+        attempt: 0,
+      }));
+      expect(logger.info).toHaveBeenCalledWith('POST /v1/keys 200', expect.objectContaining({
+        status: 200,
+        attempts: 1,
+        durationMs: expect.any(Number),
+      }));
+    });
+
+    it('should not log wallet session tokens', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ token: 'sess_secret', expiresAt: '2099-01-01T00:00:00.000Z' }))
+        .mockResolvedValueOnce(createMockResponse({ keys: [] }));
+      const signer = { publicKey: 'pub58', signMessage: async () => new Uint8Array(64) };
+
+      const logger = createLogger();
+      const client = new PeerCat({ apiKey: new WalletSession(signer), fetch: mockFetch, logger, logLevel: 'debug' });
+      await client.listKeys();
+
+      expect(logger.debug).toHaveBeenCalledWith('Received response', expect.objectContaining({ path: '/v1/sessions' }));
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('sess_secret');
+    });
+
+    it('should redact prompts by default', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ id: 'gen_123' }));
+
+      const logger = createLogger();
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, logger, logLevel: 'debug' });
+      await client.generate({ prompt: 'a secret idea' });
+
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('a secret idea');
+
+      const verbose = new PeerCat({ apiKey: 'test', fetch: mockFetch, logger, logLevel: 'debug', redactPrompts: false });
+      await verbose.generate({ prompt: 'a secret idea' });
+
+      expect(JSON.stringify(logger.debug.mock.calls)).toContain('a secret idea');
+    });
+
+    it('should log retries and final errors with the error body', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({
+        error: { type: 'api_error', code: 'bad_gateway', message: 'Bad gateway', param: null },
+      }, { ok: false, status: 502 }));
+
+      const logger = createLogger();
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch: mockFetch,
+        logger,
+        maxRetries: 1,
+        retryPolicy: new DefaultRetryPolicy({ baseDelay: 0 }),
+      });
+
+      await expect(client.getBalance()).rejects.toThrow('Bad gateway');
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith('Retrying request', expect.objectContaining({
+        attempt: 0,
+        delayMs: 0,
+        error: expect.objectContaining({ code: 'bad_gateway', status: 502 }),
+      }));
+      expect(logger.error).toHaveBeenCalledWith('GET /v1/balance failed', expect.objectContaining({
+        attempts: 2,
+        error: {
+          name: 'PeerCatError',
+          message: 'Bad gateway',
+          type: 'api_error',
+          code: 'bad_gateway',
+          param: null,
+          status: 502,
+        },
+      }));
+    });
+
+    it('should enable console logging from PEERCAT_LOG', async () => {
+      vi.stubEnv('PEERCAT_LOG', 'warn');
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({
+          error: { type: 'api_error', code: 'bad_gateway', message: 'Bad gateway', param: null },
+        }, { ok: false, status: 502 }))
+        .mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch: mockFetch,
+        retryPolicy: new DefaultRetryPolicy({ baseDelay: 0 }),
+      });
+      await client.getBalance();
+
+      expect(warn).toHaveBeenCalledWith('[peercat] Retrying request', expect.any(Object));
+      expect(info).not.toHaveBeenCalled();
+    });
+
+    it('should not log without a logger', async () => {
+      const debug = vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+      mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      await client.getBalance();
+
+      expect(debug).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * PeerCat SDK Logging
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger (compatible with `console`, pino, winston and similar)
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REDACTED = '[REDACTED]';
+
+/** Fields that always hold secrets: API keys, bearer and session tokens, and wallet signatures */
+const SECRET_FIELDS = new Set(['authorization', 'apikey', 'key', 'token', 'signature']);
+
+const PROMPT_FIELDS = new Set(['prompt', 'negativeprompt']);
+
+/**
+ * Check whether a message at `level` passes the `minLevel` threshold
+ */
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+  return LOG_LEVELS[level] >= LOG_LEVELS[minLevel];
+}
+
+/**
+ * Parse a log level from a `PEERCAT_LOG` value. Any other truthy value
+ * (e.g. `1` or `true`) enables debug logging.
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized || normalized === '0' || normalized === 'false' || normalized === 'off') {
+    return undefined;
+  }
+  return normalized in LOG_LEVELS ? normalized as LogLevel : 'debug';
+}
+
+/**
+ * Deep-copy a value with secrets (and optionally prompts) replaced by `[REDACTED]`
+ */
+export function redact(value: unknown, options: { prompts?: boolean } = {}): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, options));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const name = key.toLowerCase();
+    if (SECRET_FIELDS.has(name) || (options.prompts && PROMPT_FIELDS.has(name))) {
+      result[key] = field === undefined || field === null ? field : REDACTED;
+    } else {
+      result[key] = redact(field, options);
+    }
+  }
+  return result;
+}
+
+/**
+ * Logger writing to the console, prefixed with `[peercat]`
+ */
+export class ConsoleLogger implements Logger {
+  debug(message: string, fields?: LogFields): void {
+    console.debug(`[peercat] ${message}`, fields ?? {});
+  }
+
+  info(message: string, fields?: LogFields): void {
+    console.info(`[peercat] ${message}`, fields ?? {});
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    console.warn(`[peercat] ${message}`, fields ?? {});
+  }
+
+  error(message: string, fields?: LogFields): void {
+    console.error(`[peercat] ${message}`, fields ?? {});
+  }
+}
+
+/**
+ * Structured fields describing an error, including the API error body
+ */
+export function errorFields(error: Error): LogFields {
+  const fields: LogFields = { name: error.name, message: error.message };
+  for (const key of ['type', 'code', 'param', 'status'] as const) {
+    const value = (error as Error & Partial<Record<typeof key, unknown>>)[key];
+    if (value !== undefined) fields[key] = value;
+  }
+  return fields;
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PeerCat } from './client';
+import { composeMiddleware, type Middleware, type MiddlewareResponse } from './middleware';
+import { InvalidRequestError } from './errors';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+describe('Middleware', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('composeMiddleware', () => {
+    it('should run middleware outermost first', async () => {
+      const order: string[] = [];
+      const tag = (name: string): Middleware => async (request, next) => {
+        order.push(`${name}:before`);
+        const result = await next(request);
+        order.push(`${name}:after`);
+        return result;
+      };
+
+      const handler = composeMiddleware([tag('a'), tag('b')], async () => {
+        order.push('handler');
+        return { response: {} as Response, data: null };
+      });
+
+      await handler({
+        method: 'GET',
+        url: 'https://api.peerc.at/v1/balance',
+        headers: {},
+        attempt: 0,
+        signal: new AbortController().signal,
+      });
+
+      expect(order).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+    });
+  });
+
+  describe('client integration', () => {
+    it('should let middleware modify headers, url and body', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'gen_123' }));
+
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch: mockFetch,
+        validateRequests: false,
+        middleware: [
+          (request, next) => next({
+            ...request,
+            url: `${request.url}?tenant=acme`,
+            headers: { ...request.headers, 'X-Tenant': 'acme' },
+            body: { ...(request.body as object), options: { seed: 1 } },
+          }),
+        ],
+      });
+
+      await client.generate({ prompt: 'test' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.peerc.at/v1/generate?tenant=acme',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Tenant': 'acme' }),
+          body: JSON.stringify({ prompt: 'test', options: { seed: 1 } }),
+        })
+      );
+    });
+
+    it('should let middleware replace the parsed result', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      client.use(async (request, next) => {
+        const result = await next(request);
+        return { ...result, data: { ...(result.data as object), credits: 42 } };
+      });
+
+      const balance = await client.getBalance();
+
+      expect(balance.credits).toBe(42);
+    });
+
+    it('should allow short-circuiting without calling fetch', async () => {
+      const cache = new Map<string, MiddlewareResponse>();
+      cache.set('https://api.peerc.at/v1/models', {
+        response: {} as Response,
+        data: { models: [{ id: 'cached-model' }] },
+      });
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      client.use(async (request, next) => cache.get(request.url) ?? next(request));
+
+      const models = await client.getModels();
+
+      expect(models).toEqual([{ id: 'cached-model' }]);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should expose errors and the attempt number to middleware', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({
+          error: { type: 'server_error', code: 'internal_error', message: 'Internal error', param: null },
+        }, { ok: false, status: 500 }))
+        .mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const seen: Array<{ attempt: number; error?: string }> = [];
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 1 });
+      client.use(async (request, next) => {
+        try {
+          const result = await next(request);
+          seen.push({ attempt: request.attempt });
+          return result;
+        } catch (error) {
+          seen.push({ attempt: request.attempt, error: (error as Error).name });
+          throw error;
+        }
+      });
+
+      await client.getBalance();
+
+      expect(seen).toEqual([
+        { attempt: 0, error: 'PeerCatError' },
+        { attempt: 1 },
+      ]);
+    });
+
+    it('should propagate errors thrown by middleware', async () => {
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      client.use(async () => {
+        throw new InvalidRequestError('Blocked by policy', 'blocked');
+      });
+
+      await expect(client.getBalance()).rejects.toThrow(InvalidRequestError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * PeerCat SDK Middleware
+ */
+
+import type { HttpMethod } from './types';
+
+/**
+ * Outgoing request for a single attempt, as seen by middleware
+ */
+export interface MiddlewareRequest {
+  /** HTTP method */
+  method: HttpMethod;
+  /** Full request URL (including query string) */
+  url: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request body (serialized as JSON when sent) */
+  body?: unknown;
+  /** Attempt number, starting at 0 */
+  attempt: number;
+  /** Signal that aborts this attempt (timeout) */
+  signal: AbortSignal;
+}
+
+/**
+ * Successful result of a single attempt
+ */
+export interface MiddlewareResponse {
+  /** Raw fetch response */
+  response: Response;
+  /** Parsed response body */
+  data: unknown;
+}
+
+/**
+ * Invokes the rest of the middleware chain (and ultimately `fetch`)
+ */
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<MiddlewareResponse>;
+
+/**
+ * Middleware wrapping every request attempt
+ *
+ * Middleware may modify the request before calling `next`, inspect or replace
+ * the result it returns, or catch the error it throws. Returning without
+ * calling `next` short-circuits the request (e.g. for caching).
+ *
+ * @example
+ * ```typescript
+ * const tenant: Middleware = (request, next) =>
+ *   next({ ...request, headers: { ...request.headers, 'X-Tenant': 'acme' } });
+ * ```
+ */
+export type Middleware = (
+  request: MiddlewareRequest,
+  next: MiddlewareNext
+) => Promise<MiddlewareResponse>;
+
+/**
+ * Compose middleware around a handler; the first middleware runs outermost
+ */
+export function composeMiddleware(
+  middleware: readonly Middleware[],
+  handler: MiddlewareNext
+): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, fn) => (request) => fn(request, next),
+    handler
+  );
+}
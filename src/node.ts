@@ -0,0 +1,9 @@
+/**
+ * PeerCat SDK Node.js Helpers
+ *
+ * Features that need Node.js APIs, kept out of the main entry so it bundles
+ * for browsers and edge runtimes. Import them from `@peercat/sdk/node`.
+ */
+
+export { FileRateLimitStore } from './file-rate-limit-store';
+export type { FileRateLimitStoreOptions } from './file-rate-limit-store';
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PeerCat } from './client';
+import { RateLimiter } from './rate-limiter';
+import { MemoryRateLimitStore } from './rate-limit-store';
+import { FileRateLimitStore } from './node';
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+// Stand-in server enforcing one fixed-window limit shared by every client
+function createSharedLimitServer(limit: number, windowSeconds: number) {
+  let windowReset = Math.floor(Date.now() / 1000) + windowSeconds;
+  let remaining = limit;
+  const stats = { accepted: 0, rejected: 0 };
+
+  const fetch = vi.fn(async () => {
+    const now = Date.now();
+    if (now >= windowReset * 1000) {
+      windowReset = Math.floor(now / 1000) + windowSeconds;
+      remaining = limit;
+    }
+
+    const headers = {
+      'X-RateLimit-Limit': String(limit),
+      'X-RateLimit-Remaining': String(Math.max(0, remaining - 1)),
+      'X-RateLimit-Reset': String(windowReset),
+    };
+
+    if (remaining === 0) {
+      stats.rejected++;
+      return createMockResponse({
+        error: { type: 'rate_limit_error', code: 'rate_limit_exceeded', message: 'Rate limited', param: null },
+      }, { ok: false, status: 429, headers: { ...headers, 'X-RateLimit-Remaining': '0' } });
+    }
+
+    remaining--;
+    stats.accepted++;
+    return createMockResponse({ credits: 10 }, { headers });
+  });
+
+  return { fetch, stats };
+}
+
+describe('Rate Limit Stores', () => {
+  describe('MemoryRateLimitStore', () => {
+    it('should return empty state for unknown keys', async () => {
+      const store = new MemoryRateLimitStore();
+
+      expect(await store.get('missing')).toEqual({});
+    });
+
+    it('should keep state per key', async () => {
+      const store = new MemoryRateLimitStore();
+
+      await store.update('a', () => ({ remaining: 1 }));
+      await store.update('b', () => ({ remaining: 2 }));
+
+      expect(await store.get('a')).toEqual({ remaining: 1 });
+      expect(await store.get('b')).toEqual({ remaining: 2 });
+    });
+  });
+
+  describe('FileRateLimitStore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'peercat-rate-limit-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should share state between store instances', async () => {
+      const path = join(dir, 'state.json');
+      const first = new FileRateLimitStore(path);
+      const second = new FileRateLimitStore(path);
+
+      await first.update('key', () => ({ limit: 100, remaining: 42 }));
+
+      expect(await second.get('key')).toEqual({ limit: 100, remaining: 42 });
+    });
+
+    it('should serialize concurrent updates', async () => {
+      const path = join(dir, 'state.json');
+      const stores = [new FileRateLimitStore(path), new FileRateLimitStore(path)];
+
+      await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          stores[i % 2]!.update('key', (state) => ({ remaining: (state.remaining ?? 0) + 1 }))
+        )
+      );
+
+      expect((await stores[0]!.get('key')).remaining).toBe(20);
+    });
+
+    it('should remove stale locks', async () => {
+      const path = join(dir, 'state.json');
+      await writeFile(`${path}.lock`, '');
+      const store = new FileRateLimitStore(path, { staleLockAge: -1 });
+
+      await store.update('key', () => ({ remaining: 1 }));
+
+      expect(await store.get('key')).toEqual({ remaining: 1 });
+    });
+  });
+
+  describe('multiple clients', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep several clients under a shared server limit', async () => {
+      const server = createSharedLimitServer(5, 10);
+      const store = new MemoryRateLimitStore();
+      const clients = Array.from({ length: 3 }, () => new PeerCat({
+        apiKey: 'test',
+        fetch: server.fetch,
+        maxRetries: 0,
+        rateLimiter: new RateLimiter({ store, key: 'shared-key' }),
+      }));
+
+      // One call teaches the shared store the current quota
+      await clients[0]!.getBalance();
+
+      const calls = clients.flatMap(client => [
+        client.getBalance(),
+        client.getBalance(),
+        client.getBalance(),
+      ]);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(server.stats.accepted).toBe(5);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      await Promise.all(calls);
+
+      expect(server.stats.accepted).toBe(10);
+      expect(server.stats.rejected).toBe(0);
+    });
+
+    it('should not coordinate clients with separate stores', async () => {
+      const server = createSharedLimitServer(5, 10);
+      const clients = Array.from({ length: 3 }, () => new PeerCat({
+        apiKey: 'test',
+        fetch: server.fetch,
+        maxRetries: 0,
+        rateLimiter: new RateLimiter(),
+      }));
+
+      await Promise.all(clients.map(client => client.getBalance()));
+      const results = await Promise.allSettled(
+        clients.flatMap(client => [client.getBalance(), client.getBalance()])
+      );
+
+      expect(results.some(result => result.status === 'rejected')).toBe(true);
+      expect(server.stats.rejected).toBeGreaterThan(0);
+    });
+  });
+});
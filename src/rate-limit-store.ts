@@ -0,0 +1,56 @@
+/**
+ * PeerCat SDK Rate Limit State Stores
+ */
+
+/**
+ * Rate limit state shared between clients
+ *
+ * All timestamps are Unix milliseconds.
+ */
+export interface RateLimitState {
+  /** Last reported request limit for the window */
+  limit?: number;
+  /** Requests believed to remain in the current window */
+  remaining?: number;
+  /** When the current window resets */
+  reset?: number;
+  /** Requests are held back until this time (e.g. after Retry-After) */
+  blockedUntil?: number;
+}
+
+/**
+ * Storage for rate limit state, keyed by an arbitrary name (typically one
+ * per API key)
+ *
+ * Implementations must apply `update` atomically with respect to every other
+ * client sharing the store.
+ */
+export interface RateLimitStore {
+  /** Read the state for a key (empty if unknown) */
+  get(key: string): Promise<RateLimitState>;
+  /** Atomically replace the state for a key with `updater(current)` */
+  update(
+    key: string,
+    updater: (state: RateLimitState) => RateLimitState
+  ): Promise<RateLimitState>;
+}
+
+/**
+ * In-process store; share one instance between clients in the same process
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly states = new Map<string, RateLimitState>();
+
+  async get(key: string): Promise<RateLimitState> {
+    return { ...this.states.get(key) };
+  }
+
+  async update(
+    key: string,
+    updater: (state: RateLimitState) => RateLimitState
+  ): Promise<RateLimitState> {
+    const next = updater({ ...this.states.get(key) });
+    this.states.set(key, next);
+    return { ...next };
+  }
+}
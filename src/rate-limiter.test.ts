@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PeerCat } from './client';
+import { RateLimiter } from './rate-limiter';
+import { RequestAbortedError } from './errors';
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+// Track whether a promise has settled without awaiting it
+function track(promise: Promise<unknown>) {
+  const state = { settled: false };
+  promise.then(() => { state.settled = true; }, () => { state.settled = true; });
+  return state;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  describe('token bucket', () => {
+    it('should allow bursts up to capacity, then pace requests', async () => {
+      const limiter = new RateLimiter({ tokenBucket: { capacity: 2, refillPerSecond: 1 } });
+
+      await limiter.acquire();
+      await limiter.acquire();
+      const third = track(limiter.acquire());
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(third.settled).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(third.settled).toBe(true);
+    });
+
+    it('should reject invalid bucket options', () => {
+      expect(() => new RateLimiter({ tokenBucket: { capacity: 0, refillPerSecond: 1 } })).toThrow();
+    });
+  });
+
+  describe('header tracking', () => {
+    it('should hold requests while remaining is zero until reset', async () => {
+      const limiter = new RateLimiter();
+      await limiter.update({ limit: 100, remaining: 0, reset: nowSeconds() + 2 });
+
+      const pending = track(limiter.acquire());
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(pending.settled).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(pending.settled).toBe(true);
+      expect((await limiter.getState()).remaining).toBeUndefined();
+    });
+
+    it('should spend remaining quota optimistically', async () => {
+      const limiter = new RateLimiter();
+      await limiter.update({ limit: 100, remaining: 2, reset: nowSeconds() + 5 });
+
+      await limiter.acquire();
+      await limiter.acquire();
+      const third = track(limiter.acquire());
+
+      await vi.advanceTimersByTimeAsync(4000);
+      expect(third.settled).toBe(false);
+      expect((await limiter.getState()).remaining).toBe(0);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(third.settled).toBe(true);
+    });
+
+    it('should hold requests for Retry-After', async () => {
+      const limiter = new RateLimiter();
+      await limiter.update({ retryAfter: 3 });
+
+      const pending = track(limiter.acquire());
+
+      await vi.advanceTimersByTimeAsync(2999);
+      expect(pending.settled).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(pending.settled).toBe(true);
+    });
+
+    it('should ignore headers when respectHeaders is false', async () => {
+      const limiter = new RateLimiter({ respectHeaders: false });
+      await limiter.update({ remaining: 0, reset: nowSeconds() + 60 });
+
+      await expect(limiter.acquire()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('abort', () => {
+    it('should reject a queued request when its signal aborts', async () => {
+      const limiter = new RateLimiter();
+      await limiter.update({ remaining: 0, reset: nowSeconds() + 60 });
+      const controller = new AbortController();
+
+      const pending = limiter.acquire(controller.signal);
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(RequestAbortedError);
+    });
+
+    it('should not let an aborted waiter block the queue', async () => {
+      const limiter = new RateLimiter({ tokenBucket: { capacity: 1, refillPerSecond: 1 } });
+      const controller = new AbortController();
+
+      await limiter.acquire();
+      const aborted = limiter.acquire(controller.signal);
+      const next = track(limiter.acquire());
+      controller.abort();
+      await expect(aborted).rejects.toThrow(RequestAbortedError);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(next.settled).toBe(true);
+    });
+  });
+
+  describe('client integration', () => {
+    it('should queue calls instead of exceeding the server limit', async () => {
+      // Stand-in server allowing 2 requests per window
+      let remaining = 2;
+      const reset = nowSeconds() + 10;
+      const fetch = vi.fn(async () => {
+        if (Date.now() >= reset * 1000) remaining = 2;
+        if (remaining === 0) {
+          return createMockResponse({
+            error: { type: 'rate_limit_error', code: 'rate_limit_exceeded', message: 'Rate limited', param: null },
+          }, { ok: false, status: 429 });
+        }
+        remaining--;
+        return createMockResponse({ credits: 10 }, {
+          headers: {
+            'X-RateLimit-Limit': '2',
+            'X-RateLimit-Remaining': String(remaining),
+            'X-RateLimit-Reset': String(reset),
+          },
+        });
+      });
+
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch,
+        maxRetries: 0,
+        rateLimiter: new RateLimiter(),
+      });
+
+      await client.getBalance();
+      await client.getBalance();
+      const third = client.getBalance();
+      const thirdState = track(third);
+
+      await vi.advanceTimersByTimeAsync(9000);
+      expect(thirdState.settled).toBe(false);
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(third).resolves.toEqual({ credits: 10 });
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * PeerCat SDK Client-Side Rate Limiting
+ */
+
+import { RequestAbortedError, type RateLimitInfo } from './errors';
+import {
+  MemoryRateLimitStore,
+  type RateLimitState,
+  type RateLimitStore,
+} from './rate-limit-store';
+import { abortable, sleep } from './utils';
+
+/**
+ * Token bucket matching a known rate limit tier
+ */
+export interface TokenBucketOptions {
+  /** Maximum number of requests in a burst */
+  capacity: number;
+  /** Requests replenished per second */
+  refillPerSecond: number;
+}
+
+export interface RateLimiterOptions {
+  /**
+   * Queue requests while `X-RateLimit-Remaining` is zero (or after a
+   * `Retry-After`) until the window resets (default: true)
+   */
+  respectHeaders?: boolean;
+  /** Additionally pace requests with a local token bucket */
+  tokenBucket?: TokenBucketOptions;
+  /** Where rate limit state is kept; share one to coordinate clients (default: in-memory) */
+  store?: RateLimitStore;
+  /** Key for this limiter's state in the store; use one per API key (default: 'default') */
+  key?: string;
+}
+
+/**
+ * Snapshot of the limiter's view of the server rate limit
+ */
+export interface RateLimiterState extends RateLimitState {
+  /** Tokens currently available in the local token bucket */
+  tokens?: number;
+}
+
+/**
+ * Client-side rate limiter driven by `X-RateLimit-*` response headers
+ *
+ * Requests are admitted in FIFO order. The limiter learns the server's
+ * remaining quota from every response (successful or not) and holds requests
+ * back once it is exhausted, instead of letting them bounce off 429s.
+ * Limiters sharing a {@link RateLimitStore} and key coordinate this state,
+ * while each keeps its own token bucket.
+ *
+ * @example
+ * ```typescript
+ * const client = new PeerCat({
+ *   apiKey: 'pcat_live_xxx',
+ *   rateLimiter: new RateLimiter({ tokenBucket: { capacity: 10, refillPerSecond: 1 } }),
+ * });
+ * ```
+ */
+export class RateLimiter {
+  private readonly respectHeaders: boolean;
+  private readonly bucket?: TokenBucketOptions;
+  private readonly store: RateLimitStore;
+  private readonly key: string;
+  private tokens: number;
+  private lastRefill: number;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimiterOptions = {}) {
+    if (options.tokenBucket) {
+      const { capacity, refillPerSecond } = options.tokenBucket;
+      if (!(capacity >= 1) || !(refillPerSecond > 0)) {
+        throw new Error('tokenBucket requires capacity >= 1 and refillPerSecond > 0');
+      }
+    }
+
+    this.respectHeaders = options.respectHeaders ?? true;
+    this.bucket = options.tokenBucket;
+    this.store = options.store ?? new MemoryRateLimitStore();
+    this.key = options.key ?? 'default';
+    this.tokens = this.bucket?.capacity ?? 0;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a request may be sent
+   *
+   * @param signal - Aborts the wait with a RequestAbortedError
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    const turn = this.tail.then(() => this.waitForSlot(signal));
+    // Keep the queue moving even if this waiter is aborted
+    this.tail = turn.catch(() => undefined);
+    return abortable(turn, signal);
+  }
+
+  /**
+   * Record rate limit headers from a response
+   */
+  async update(info: RateLimitInfo): Promise<void> {
+    if (!this.respectHeaders) {
+      return;
+    }
+
+    const hasQuota = info.limit !== undefined || info.remaining !== undefined || info.reset !== undefined;
+    if (!hasQuota && info.retryAfter === undefined) {
+      return;
+    }
+
+    await this.store.update(this.key, (state) => {
+      const next = { ...state };
+      if (info.limit !== undefined) next.limit = info.limit;
+
+      if (info.remaining !== undefined) {
+        const reset = info.reset !== undefined ? info.reset * 1000 : next.reset;
+        // Within the same window the server count only goes down, so keep the
+        // lower value when responses from concurrent clients arrive out of order
+        next.remaining = reset === next.reset && next.remaining !== undefined
+          ? Math.min(next.remaining, info.remaining)
+          : info.remaining;
+        next.reset = reset;
+      } else if (info.reset !== undefined) {
+        next.reset = info.reset * 1000;
+      }
+
+      if (info.retryAfter !== undefined) {
+        next.blockedUntil = Math.max(next.blockedUntil ?? 0, Date.now() + info.retryAfter * 1000);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Current limiter state
+   */
+  async getState(): Promise<RateLimiterState> {
+    const state = await this.store.get(this.key);
+    this.refill();
+    return { ...state, tokens: this.bucket ? this.tokens : undefined };
+  }
+
+  private async waitForSlot(signal?: AbortSignal): Promise<void> {
+    let hasToken = !this.bucket;
+
+    for (;;) {
+      // Waiters aborted while queued give up their turn without spending quota
+      if (signal?.aborted) {
+        throw new RequestAbortedError(undefined, signal.reason);
+      }
+
+      if (!hasToken && this.bucket) {
+        this.refill();
+        if (this.tokens < 1) {
+          await sleep(((1 - this.tokens) / this.bucket.refillPerSecond) * 1000, signal);
+          continue;
+        }
+        this.tokens -= 1;
+        hasToken = true;
+      }
+
+      let wait = 0;
+      await this.store.update(this.key, (state) => {
+        const now = Date.now();
+        const next = { ...state };
+
+        // Quota exhausted: hold requests until the window resets
+        if (next.remaining === 0 && next.reset !== undefined) {
+          if (next.reset > now) {
+            next.blockedUntil = Math.max(next.blockedUntil ?? 0, next.reset);
+          } else {
+            delete next.remaining;
+            delete next.reset;
+          }
+        }
+
+        if (next.blockedUntil !== undefined) {
+          if (next.blockedUntil > now) {
+            wait = next.blockedUntil - now;
+            return next;
+          }
+          // The window has reset
+          delete next.blockedUntil;
+          delete next.remaining;
+          delete next.reset;
+        }
+
+        // Optimistically spend quota so concurrent requests don't all pass
+        if (next.remaining !== undefined) {
+          next.remaining = Math.max(0, next.remaining - 1);
+        }
+        return next;
+      });
+
+      if (wait > 0) {
+        await sleep(wait, signal);
+        continue;
+      }
+      return;
+    }
+  }
+
+  private refill(): void {
+    if (!this.bucket) {
+      return;
+    }
+
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.bucket.capacity, this.tokens + elapsed * this.bucket.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PeerCat } from './client';
+import { DefaultRetryPolicy, RetryBudget, isRetryableError, type RetryPolicy } from './retry';
+import {
+  InvalidRequestError,
+  NetworkError,
+  PeerCatError,
+  RateLimitError,
+  RequestAbortedError,
+  TimeoutError,
+  parseRateLimitHeaders,
+} from './errors';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+const serverError = () => createMockResponse({
+  error: { type: 'server_error', code: 'internal_error', message: 'Internal error', param: null },
+}, { ok: false, status: 500 });
+
+describe('Retry', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry network errors, timeouts, 5xx and rate limits', () => {
+      expect(isRetryableError(new NetworkError('down'))).toBe(true);
+      expect(isRetryableError(new TimeoutError())).toBe(true);
+      expect(isRetryableError(new PeerCatError('boom', 'api_error', 'http_503', null, 503))).toBe(true);
+      expect(isRetryableError(new RateLimitError('slow down', 'rate_limit_exceeded'))).toBe(true);
+    });
+
+    it('should not retry other 4xx errors or aborts', () => {
+      expect(isRetryableError(new InvalidRequestError('bad', 'bad_request'))).toBe(false);
+      expect(isRetryableError(new RequestAbortedError())).toBe(false);
+    });
+  });
+
+  describe('DefaultRetryPolicy', () => {
+    it('should apply full jitter within the exponential cap', () => {
+      const policy = new DefaultRetryPolicy({ baseDelay: 100, maxDelay: 1000 });
+      const error = new NetworkError('down');
+
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      expect(policy.getDelay(error, 0)).toBe(50);
+      expect(policy.getDelay(error, 2)).toBe(200);
+      expect(policy.getDelay(error, 10)).toBe(500);
+    });
+
+    it('should use the exponential cap without jitter', () => {
+      const policy = new DefaultRetryPolicy({ baseDelay: 100, maxDelay: 1000, jitter: 'none' });
+      const error = new NetworkError('down');
+
+      expect(policy.getDelay(error, 0)).toBe(100);
+      expect(policy.getDelay(error, 3)).toBe(800);
+      expect(policy.getDelay(error, 4)).toBe(1000);
+    });
+
+    it('should honor Retry-After seconds', () => {
+      const policy = new DefaultRetryPolicy();
+      const error = new RateLimitError('slow down', 'rate_limit_exceeded', { retryAfter: 7 });
+
+      expect(policy.getDelay(error, 0)).toBe(7000);
+    });
+
+    it('should wait until X-RateLimit-Reset when Retry-After is missing', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+      const policy = new DefaultRetryPolicy();
+      const error = new RateLimitError('slow down', 'rate_limit_exceeded', { reset: 1_700_000_012 });
+
+      expect(policy.getDelay(error, 0)).toBe(12000);
+    });
+
+    it('should cap server-directed waits', () => {
+      const policy = new DefaultRetryPolicy({ maxRateLimitDelay: 5000 });
+      const error = new RateLimitError('slow down', 'rate_limit_exceeded', { retryAfter: 3600 });
+
+      expect(policy.getDelay(error, 0)).toBe(5000);
+    });
+
+    it('should delegate to a custom shouldRetry hook', () => {
+      const shouldRetry = vi.fn().mockReturnValue(false);
+      const policy = new DefaultRetryPolicy({ shouldRetry });
+      const error = new NetworkError('down');
+
+      expect(policy.shouldRetry(error, 2)).toBe(false);
+      expect(shouldRetry).toHaveBeenCalledWith(error, 2);
+    });
+  });
+
+  describe('RetryBudget', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should allow retries up to the floor plus a ratio of calls', () => {
+      const budget = new RetryBudget({ ratio: 0.5, minRetriesPerSecond: 0.1, windowMs: 10000 });
+      for (let i = 0; i < 4; i++) {
+        budget.recordRequest();
+      }
+
+      expect(budget.available).toBe(3);
+      expect([1, 2, 3, 4].map(() => budget.tryAcquire())).toEqual([true, true, true, false]);
+      expect(budget.available).toBe(0);
+    });
+
+    it('should refill as calls and retries leave the window', () => {
+      vi.useFakeTimers();
+      const budget = new RetryBudget({ ratio: 0, minRetriesPerSecond: 0.2, windowMs: 5000 });
+
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.tryAcquire()).toBe(false);
+
+      vi.advanceTimersByTime(5000);
+      expect(budget.tryAcquire()).toBe(true);
+    });
+
+    it('should forget calls that left the window without any retries', () => {
+      vi.useFakeTimers();
+      const budget = new RetryBudget({ windowMs: 1000 });
+      for (let i = 0; i < 1000; i++) {
+        budget.recordRequest();
+      }
+
+      vi.advanceTimersByTime(1001);
+      budget.recordRequest();
+
+      expect(budget['requests']).toHaveLength(1);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => new RetryBudget({ ratio: -1 })).toThrow(RangeError);
+      expect(() => new RetryBudget({ windowMs: 0 })).toThrow(RangeError);
+    });
+
+    it('should only charge retries the policy would make', () => {
+      const budget = new RetryBudget({ ratio: 0, minRetriesPerSecond: 0.1, windowMs: 10000 });
+      const policy = new DefaultRetryPolicy({ budget });
+
+      expect(policy.shouldRetry(new InvalidRequestError('Bad', 'bad_request'), 0)).toBe(false);
+      expect(budget.available).toBe(1);
+      expect(policy.shouldRetry(new NetworkError('Down'), 0)).toBe(true);
+      expect(policy.shouldRetry(new NetworkError('Down'), 0)).toBe(false);
+    });
+  });
+
+  describe('parseRateLimitHeaders', () => {
+    it('should parse Retry-After as an HTTP-date', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'));
+      const headers = new Headers({ 'Retry-After': 'Wed, 21 Oct 2026 07:28:30 GMT' });
+
+      expect(parseRateLimitHeaders(headers).retryAfter).toBe(30);
+    });
+
+    it('should ignore unparseable Retry-After values', () => {
+      const headers = new Headers({ 'Retry-After': 'soon' });
+
+      expect(parseRateLimitHeaders(headers).retryAfter).toBeUndefined();
+    });
+  });
+
+  describe('client integration', () => {
+    it('should use the configured retry policy', async () => {
+      mockFetch
+        .mockResolvedValueOnce(serverError())
+        .mockResolvedValueOnce(serverError())
+        .mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+      const policy: RetryPolicy = {
+        shouldRetry: vi.fn().mockReturnValue(true),
+        getDelay: vi.fn().mockReturnValue(0),
+      };
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, retryPolicy: policy });
+
+      const balance = await client.getBalance();
+
+      expect(balance.credits).toBe(10);
+      expect(policy.getDelay).toHaveBeenCalledTimes(2);
+      expect(policy.getDelay).toHaveBeenLastCalledWith(expect.any(PeerCatError), 1);
+    });
+
+    it('should stop when the policy declines to retry', async () => {
+      mockFetch.mockResolvedValue(serverError());
+
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch: mockFetch,
+        maxRetries: 3,
+        retryPolicy: new DefaultRetryPolicy({ shouldRetry: () => false }),
+      });
+
+      await expect(client.getBalance()).rejects.toThrow('Internal error');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up instead of sleeping past the deadline', async () => {
+      mockFetch.mockResolvedValue(serverError());
+
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch: mockFetch,
+        maxRetries: 5,
+        deadline: 100,
+        retryPolicy: new DefaultRetryPolicy({ baseDelay: 1000, jitter: 'none' }),
+      });
+
+      const start = Date.now();
+      await expect(client.getBalance()).rejects.toThrow('Internal error');
+      expect(Date.now() - start).toBeLessThan(100);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap attempts by the remaining deadline', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, timeout: 60000 });
+
+      await expect(client.getBalance({ deadline: 30 })).rejects.toThrow(
+        'Request deadline of 30ms exceeded'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying across calls once the budget is spent', async () => {
+      mockFetch.mockResolvedValue(serverError());
+
+      const budget = new RetryBudget({ ratio: 0.5, minRetriesPerSecond: 0, windowMs: 60000 });
+      const client = new PeerCat({
+        apiKey: 'test',
+        fetch: mockFetch,
+        maxRetries: 3,
+        retryPolicy: new DefaultRetryPolicy({ baseDelay: 0, budget }),
+      });
+
+      await expect(client.getBalance()).rejects.toThrow('Internal error');
+      await expect(client.getBalance()).rejects.toThrow('Internal error');
+      await expect(client.getBalance()).rejects.toThrow('Internal error');
+
+      // Three calls earn one retry
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+  });
+});
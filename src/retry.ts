@@ -0,0 +1,225 @@
+/**
+ * PeerCat SDK Retry Policies
+ */
+
+import {
+  CassetteError,
+  PeerCatError,
+  RateLimitError,
+  RequestAbortedError,
+  ResponseValidationError,
+} from './errors';
+
+/**
+ * Decides whether and when a failed attempt is retried
+ *
+ * `attempt` is the zero-based number of retries the call has used so far.
+ * Immediate key failovers and credential refreshes are not counted.
+ */
+export interface RetryPolicy {
+  /** Whether the failed attempt should be retried */
+  shouldRetry(error: Error, attempt: number): boolean;
+  /** Delay in milliseconds before the next attempt */
+  getDelay(error: Error, attempt: number): number;
+  /** Called once per call before its first attempt, e.g. to track request volume */
+  recordRequest?(): void;
+}
+
+export interface DefaultRetryPolicyOptions {
+  /** Base delay for exponential backoff in milliseconds (default: 1000) */
+  baseDelay?: number;
+  /** Maximum backoff delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Randomize backoff delays between 0 and the exponential cap (default: 'full') */
+  jitter?: 'full' | 'none';
+  /** Maximum server-directed wait (Retry-After / X-RateLimit-Reset) in milliseconds (default: 60000) */
+  maxRateLimitDelay?: number;
+  /** Custom retry decision (default: {@link isRetryableError}) */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /** Cap retries across calls; share one budget between policies and clients (default: none) */
+  budget?: RetryBudget;
+}
+
+export interface RetryBudgetOptions {
+  /** Retries allowed per call in the window, e.g. 0.1 for one retry per ten calls (default: 0.1) */
+  ratio?: number;
+  /** Retries allowed per second regardless of traffic, so quiet periods can still retry (default: 1) */
+  minRetriesPerSecond?: number;
+  /** Length of the sliding window in milliseconds (default: 10000) */
+  windowMs?: number;
+}
+
+/**
+ * Default retry classification: network errors, timeouts, 5xx responses and
+ * rate limits are retried; other 4xx responses and caller aborts are not
+ */
+export function isRetryableError(error: Error): boolean {
+  // Aborts are deliberate, and a malformed response or missing recording will not fix itself
+  if (
+    error instanceof RequestAbortedError ||
+    error instanceof ResponseValidationError ||
+    error instanceof CassetteError
+  ) {
+    return false;
+  }
+
+  if (error instanceof PeerCatError && error.status >= 400 && error.status < 500) {
+    return error instanceof RateLimitError;
+  }
+
+  return true;
+}
+
+/**
+ * Limits retries to a share of recent calls
+ *
+ * During an outage every call fails and would retry `maxRetries` times,
+ * multiplying load on the API just as it recovers. A budget allows retries up
+ * to `ratio` of the calls made in the last `windowMs`, plus a small floor of
+ * `minRetriesPerSecond`. Once it is spent, failures are returned at once.
+ *
+ * @example
+ * ```typescript
+ * // One budget for every client in the process
+ * const budget = new RetryBudget({ ratio: 0.2 });
+ * const client = new PeerCat({
+ *   apiKey: 'pcat_live_xxx',
+ *   retryPolicy: new DefaultRetryPolicy({ budget }),
+ * });
+ * ```
+ */
+export class RetryBudget {
+  private readonly ratio: number;
+  private readonly minRetriesPerSecond: number;
+  private readonly windowMs: number;
+  /** Timestamps of calls and retries within the window, oldest first */
+  private readonly requests: number[] = [];
+  private readonly retries: number[] = [];
+
+  constructor(options: RetryBudgetOptions = {}) {
+    this.ratio = options.ratio ?? 0.1;
+    this.minRetriesPerSecond = options.minRetriesPerSecond ?? 1;
+    this.windowMs = options.windowMs ?? 10000;
+
+    if (!(this.ratio >= 0) || !(this.minRetriesPerSecond >= 0) || !(this.windowMs > 0)) {
+      throw new RangeError('Retry budget needs ratio >= 0, minRetriesPerSecond >= 0 and windowMs > 0');
+    }
+  }
+
+  /** Retries that may be taken right now */
+  get available(): number {
+    this.prune(Date.now());
+    return Math.max(0, Math.floor(this.limit() - this.retries.length));
+  }
+
+  /**
+   * Record a call
+   */
+  recordRequest(): void {
+    const now = Date.now();
+    // Prune here too, or a process that never retries keeps every timestamp
+    this.prune(now);
+    this.requests.push(now);
+  }
+
+  /**
+   * Take one retry from the budget
+   *
+   * @returns false, taking nothing, when the budget is spent
+   */
+  tryAcquire(): boolean {
+    const now = Date.now();
+    this.prune(now);
+    if (this.retries.length + 1 > this.limit()) {
+      return false;
+    }
+    this.retries.push(now);
+    return true;
+  }
+
+  private limit(): number {
+    return this.minRetriesPerSecond * this.windowMs / 1000 + this.ratio * this.requests.length;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    for (const timestamps of [this.requests, this.retries]) {
+      let expired = 0;
+      while (expired < timestamps.length && timestamps[expired]! <= cutoff) {
+        expired++;
+      }
+      timestamps.splice(0, expired);
+    }
+  }
+}
+
+/**
+ * Exponential backoff with full jitter that honors server-directed waits
+ *
+ * Rate limit errors wait for `Retry-After` (seconds or HTTP-date) or, failing
+ * that, until `X-RateLimit-Reset`. Other errors back off exponentially with
+ * a random delay in `[0, min(maxDelay, baseDelay * 2^attempt)]`. With a
+ * `budget`, retries beyond it are declined.
+ *
+ * @example
+ * ```typescript
+ * const client = new PeerCat({
+ *   apiKey: 'pcat_live_xxx',
+ *   retryPolicy: new DefaultRetryPolicy({ baseDelay: 500, maxDelay: 5000 }),
+ * });
+ * ```
+ */
+export class DefaultRetryPolicy implements RetryPolicy {
+  private readonly baseDelay: number;
+  private readonly maxDelay: number;
+  private readonly jitter: 'full' | 'none';
+  private readonly maxRateLimitDelay: number;
+  private readonly retryHook: (error: Error, attempt: number) => boolean;
+  private readonly budget?: RetryBudget;
+
+  constructor(options: DefaultRetryPolicyOptions = {}) {
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 10000;
+    this.jitter = options.jitter ?? 'full';
+    this.maxRateLimitDelay = options.maxRateLimitDelay ?? 60000;
+    this.retryHook = options.shouldRetry ?? isRetryableError;
+    this.budget = options.budget;
+  }
+
+  shouldRetry(error: Error, attempt: number): boolean {
+    // Only retries the hook wants are charged to the budget
+    return this.retryHook(error, attempt) && (this.budget?.tryAcquire() ?? true);
+  }
+
+  recordRequest(): void {
+    this.budget?.recordRequest();
+  }
+
+  getDelay(error: Error, attempt: number): number {
+    if (error instanceof RateLimitError) {
+      const serverDelay = this.getRateLimitDelay(error);
+      if (serverDelay !== undefined) {
+        return Math.min(serverDelay, this.maxRateLimitDelay);
+      }
+    }
+
+    const cap = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, attempt));
+    return this.jitter === 'full' ? Math.random() * cap : cap;
+  }
+
+  /**
+   * Wait requested by the server, if any
+   */
+  private getRateLimitDelay(error: RateLimitError): number | undefined {
+    if (error.retryAfter !== undefined && !Number.isNaN(error.retryAfter)) {
+      return Math.max(0, error.retryAfter * 1000);
+    }
+
+    const reset = error.rateLimitInfo?.reset;
+    if (reset !== undefined && !Number.isNaN(reset)) {
+      return Math.max(0, reset * 1000 - Date.now());
+    }
+
+    return undefined;
+  }
+}
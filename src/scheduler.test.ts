@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PeerCat } from './client';
+import { RequestScheduler } from './scheduler';
+import { QueueFullError, RequestAbortedError } from './errors';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+// A task that stays pending until released
+function createDeferredTask<T>(value: T) {
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  const task = vi.fn(async () => {
+    await gate;
+    return value;
+  });
+  return { task, release };
+}
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should limit concurrency', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    const tasks = [createDeferredTask(1), createDeferredTask(2), createDeferredTask(3)];
+
+    const results = tasks.map(({ task }) => scheduler.schedule(task));
+    await Promise.resolve();
+
+    expect(tasks[2]!.task).not.toHaveBeenCalled();
+    expect(scheduler.stats).toMatchObject({ active: 2, queued: 1 });
+
+    tasks[0]!.release();
+    await results[0];
+    await vi.waitFor(() => expect(tasks[2]!.task).toHaveBeenCalled());
+
+    tasks[1]!.release();
+    tasks[2]!.release();
+    expect(await Promise.all(results)).toEqual([1, 2, 3]);
+    expect(scheduler.stats).toMatchObject({ active: 0, queued: 0, started: 3 });
+  });
+
+  it('should run higher priority tasks first', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = createDeferredTask('blocker');
+    const order: string[] = [];
+    const record = (name: string) => async () => {
+      order.push(name);
+    };
+
+    const running = scheduler.schedule(blocker.task);
+    const queued = [
+      scheduler.schedule(record('background-1'), { priority: -1 }),
+      scheduler.schedule(record('normal'), { priority: 0 }),
+      scheduler.schedule(record('interactive'), { priority: 10 }),
+      scheduler.schedule(record('background-2'), { priority: -1 }),
+    ];
+
+    blocker.release();
+    await running;
+    await Promise.all(queued);
+
+    expect(order).toEqual(['interactive', 'normal', 'background-1', 'background-2']);
+  });
+
+  it('should reject with QueueFullError when the queue is full', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1, maxQueueSize: 1 });
+    const blocker = createDeferredTask('blocker');
+
+    const running = scheduler.schedule(blocker.task);
+    const queued = scheduler.schedule(async () => 'queued');
+
+    await expect(scheduler.schedule(async () => 'overflow')).rejects.toThrow(QueueFullError);
+    expect(scheduler.stats.rejected).toBe(1);
+
+    blocker.release();
+    await expect(running).resolves.toBe('blocker');
+    await expect(queued).resolves.toBe('queued');
+  });
+
+  it('should remove aborted tasks from the queue', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = createDeferredTask('blocker');
+    const controller = new AbortController();
+    const task = vi.fn(async () => 'never');
+
+    const running = scheduler.schedule(blocker.task);
+    const aborted = scheduler.schedule(task, { signal: controller.signal });
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow(RequestAbortedError);
+    expect(scheduler.stats.queued).toBe(0);
+
+    blocker.release();
+    await running;
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should track queue depth and wait times', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = createDeferredTask('blocker');
+
+    const running = scheduler.schedule(blocker.task);
+    const queued = [scheduler.schedule(async () => 1), scheduler.schedule(async () => 2)];
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    blocker.release();
+    await Promise.all([running, ...queued]);
+
+    const stats = scheduler.stats;
+    expect(stats.maxQueued).toBe(2);
+    expect(stats.started).toBe(3);
+    expect(stats.maxWaitMs).toBeGreaterThanOrEqual(15);
+    expect(stats.averageWaitMs).toBeGreaterThan(0);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+
+    await expect(scheduler.schedule(async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    await expect(scheduler.schedule(async () => 'next')).resolves.toBe('next');
+  });
+
+  describe('client integration', () => {
+    it('should limit concurrent fetch calls and honor per-call priority', async () => {
+      const releases: Array<() => void> = [];
+      const paths: string[] = [];
+      mockFetch.mockImplementation((url: string) => {
+        paths.push(new URL(url).pathname);
+        return new Promise(resolve => {
+          releases.push(() => resolve(createMockResponse({ credits: 10, models: [] })));
+        });
+      });
+
+      const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, scheduler });
+
+      const first = client.getBalance();
+      const background = client.getModels({ priority: -1 });
+      const interactive = client.getBalance({ priority: 10 });
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+
+      releases[0]!();
+      await first;
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+      releases[1]!();
+      await interactive;
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+      releases[2]!();
+      await background;
+
+      expect(paths).toEqual(['/v1/balance', '/v1/balance', '/v1/models']);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * PeerCat SDK Request Scheduler
+ */
+
+import { QueueFullError, RequestAbortedError } from './errors';
+
+export interface RequestSchedulerOptions {
+  /** Maximum number of calls running at once (default: 4) */
+  maxConcurrency?: number;
+  /** Maximum number of calls waiting for a slot; further calls are rejected (default: unbounded) */
+  maxQueueSize?: number;
+}
+
+export interface ScheduleOptions {
+  /** Higher priorities run first; equal priorities run in FIFO order (default: 0) */
+  priority?: number;
+  /** Removes the call from the queue when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Scheduler statistics
+ */
+export interface RequestSchedulerStats {
+  /** Calls currently running */
+  active: number;
+  /** Calls waiting for a slot */
+  queued: number;
+  /** Highest queue depth observed */
+  maxQueued: number;
+  /** Calls started so far */
+  started: number;
+  /** Calls rejected because the queue was full */
+  rejected: number;
+  /** Average time calls waited for a slot, in milliseconds */
+  averageWaitMs: number;
+  /** Longest time a call waited for a slot, in milliseconds */
+  maxWaitMs: number;
+}
+
+interface QueuedTask {
+  priority: number;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+/**
+ * Limits concurrent calls and queues the rest by priority
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new RequestScheduler({ maxConcurrency: 4, maxQueueSize: 100 });
+ * const client = new PeerCat({ apiKey: 'pcat_live_xxx', scheduler });
+ *
+ * // Interactive generations jump ahead of background work
+ * await client.generate({ prompt: 'A red fox' }, { priority: 10 });
+ * ```
+ */
+export class RequestScheduler {
+  private readonly maxConcurrency: number;
+  private readonly maxQueueSize: number;
+  private readonly queue: QueuedTask[] = [];
+  private active = 0;
+  private maxQueued = 0;
+  private started = 0;
+  private rejected = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrency = options.maxConcurrency ?? 4;
+    this.maxQueueSize = options.maxQueueSize ?? Infinity;
+
+    if (!(this.maxConcurrency >= 1)) {
+      throw new Error('maxConcurrency must be at least 1');
+    }
+  }
+
+  /**
+   * Run a task once a slot is free
+   *
+   * @throws QueueFullError if the task would exceed `maxQueueSize`
+   * @throws RequestAbortedError if the signal aborts while the task is queued
+   */
+  async schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new RequestAbortedError(undefined, signal.reason);
+    }
+
+    if (this.active >= this.maxConcurrency || this.queue.length > 0) {
+      await this.enqueue(options.priority ?? 0, signal);
+    } else {
+      this.recordStart(0);
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.next();
+    }
+  }
+
+  /**
+   * Current statistics
+   */
+  get stats(): RequestSchedulerStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxQueued: this.maxQueued,
+      started: this.started,
+      rejected: this.rejected,
+      averageWaitMs: this.started > 0 ? this.totalWaitMs / this.started : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+
+  private enqueue(priority: number, signal?: AbortSignal): Promise<void> {
+    if (this.queue.length >= this.maxQueueSize) {
+      this.rejected++;
+      throw new QueueFullError(`Request queue is full (${this.maxQueueSize} waiting)`);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(entry);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        reject(new RequestAbortedError(undefined, signal?.reason));
+      };
+
+      const entry: QueuedTask = {
+        priority,
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.recordStart(Date.now() - entry.enqueuedAt);
+          resolve();
+        },
+      };
+
+      // Insert after every task with greater or equal priority
+      let index = this.queue.findIndex(queued => queued.priority < priority);
+      if (index === -1) index = this.queue.length;
+      this.queue.splice(index, 0, entry);
+      this.maxQueued = Math.max(this.maxQueued, this.queue.length);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private next(): void {
+    while (this.active < this.maxConcurrency) {
+      const entry = this.queue.shift();
+      if (!entry) return;
+      entry.start();
+    }
+  }
+
+  private recordStart(waitMs: number): void {
+    this.active++;
+    this.started++;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+}
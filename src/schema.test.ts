@@ -6,9 +6,12 @@
  * 2. Field types match the OpenAPI schema
  * 3. Mock data used in tests would be valid API responses
  * 4. SDK correctly handles all specified field types (nullable, optional, enums)
+ * 5. The shipped runtime validator pinpoints invalid responses
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PeerCat } from './client';
+import { ResponseValidationError } from './errors';
 import type {
   Model,
   ModelsResponse,
@@ -23,109 +26,31 @@ import type {
   PromptSubmission,
   OnChainGenerationStatus,
 } from './types';
-
-// JSON Schema definitions derived from OpenAPI spec
-const schemas = {
-  Model: {
-    required: ['id', 'name', 'description', 'provider', 'maxPromptLength', 'outputFormat', 'outputResolution', 'priceUsd'],
-    properties: {
-      id: { type: 'string' },
-      name: { type: 'string' },
-      description: { type: 'string' },
-      provider: { type: 'string' },
-      maxPromptLength: { type: 'number' },
-      outputFormat: { type: 'string' },
-      outputResolution: { type: 'string' },
-      priceUsd: { type: 'number' },
-    },
-  },
-  Balance: {
-    required: ['credits', 'totalDeposited', 'totalSpent', 'totalWithdrawn', 'totalGenerated'],
-    properties: {
-      credits: { type: 'number' },
-      totalDeposited: { type: 'number' },
-      totalSpent: { type: 'number' },
-      totalWithdrawn: { type: 'number' },
-      totalGenerated: { type: 'number' },
-    },
-  },
-  GenerateResponse: {
-    required: ['id', 'imageUrl', 'model', 'mode', 'usage'],
-    properties: {
-      id: { type: 'string' },
-      imageUrl: { type: 'string' },
-      ipfsHash: { type: ['string', 'null'] },
-      model: { type: 'string' },
-      mode: { type: 'string', enum: ['production', 'demo'] },
-      usage: {
-        type: 'object',
-        required: ['creditsUsed', 'balanceRemaining'],
-        properties: {
-          creditsUsed: { type: 'number' },
-          balanceRemaining: { type: 'number' },
-        },
-      },
+import { findSchemaIssues, schemas } from './schema';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
     },
-  },
-  PriceResponse: {
-    required: ['solPrice', 'updatedAt', 'slippageTolerance', 'treasury', 'models'],
-    properties: {
-      solPrice: { type: 'number' },
-      updatedAt: { type: 'string' },
-      slippageTolerance: { type: 'number' },
-      treasury: { type: 'string' },
-      models: { type: 'array' },
-    },
-  },
-  ModelPrice: {
-    required: ['model', 'priceUsd', 'priceSol', 'priceSolWithSlippage'],
-    properties: {
-      model: { type: 'string' },
-      priceUsd: { type: 'number' },
-      priceSol: { type: 'number' },
-      priceSolWithSlippage: { type: 'number' },
-    },
-  },
-  HistoryItem: {
-    required: ['id', 'endpoint', 'creditsUsed', 'status', 'createdAt'],
-    properties: {
-      id: { type: 'string' },
-      endpoint: { type: 'string' },
-      model: { type: ['string', 'null'] },
-      creditsUsed: { type: 'number' },
-      requestId: { type: ['string', 'null'] },
-      status: { type: 'string', enum: ['pending', 'completed', 'refunded'] },
-      createdAt: { type: 'string' },
-      completedAt: { type: ['string', 'null'] },
-    },
-  },
-  ApiKey: {
-    required: ['id', 'keyPrefix', 'environment', 'rateLimitTier', 'createdAt', 'revoked'],
-    properties: {
-      id: { type: 'string' },
-      name: { type: ['string', 'null'] },
-      keyPrefix: { type: 'string' },
-      environment: { type: 'string', enum: ['live', 'test'] },
-      rateLimitTier: { type: 'string' },
-      createdAt: { type: 'string' },
-      lastUsedAt: { type: ['string', 'null'] },
-      revoked: { type: 'boolean' },
-    },
-  },
-  OnChainGenerationStatus: {
-    required: ['txSignature', 'status'],
-    properties: {
-      txSignature: { type: 'string' },
-      status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed', 'refunded'] },
-      model: { type: 'string' },
-      createdAt: { type: 'string' },
-      imageUrl: { type: 'string' },
-      ipfsHash: { type: 'string' },
-      completedAt: { type: 'string' },
-      error: { type: 'string' },
-      message: { type: 'string' },
-    },
-  },
+  };
+}
+
+const validBalance: Balance = {
+  credits: 10.5,
+  totalDeposited: 50,
+  totalSpent: 39.5,
+  totalWithdrawn: 0,
+  totalGenerated: 100,
 };
 
 // Type guard to check if value matches expected type
@@ -595,3 +520,100 @@ describe('Contract Tests - SDK Types Match OpenAPI', () => {
     }
   });
 });
+
+describe('Runtime Response Validation', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('findSchemaIssues', () => {
+    it('should accept valid responses', () => {
+      expect(findSchemaIssues(validBalance, schemas.Balance)).toEqual([]);
+    });
+
+    it('should pinpoint null where a number is expected', () => {
+      expect(findSchemaIssues({ ...validBalance, credits: null }, schemas.Balance)).toEqual([
+        { path: '$.credits', message: 'expected number, got null' },
+      ]);
+    });
+
+    it('should report paths into nested objects and arrays', () => {
+      const issues = findSchemaIssues({
+        items: [
+          { id: 'h1', endpoint: '/v1/generate', creditsUsed: 0.1, status: 'completed', createdAt: '2024-01-01' },
+          { id: 'h2', endpoint: '/v1/generate', creditsUsed: 0.1, status: 'lost', createdAt: '2024-01-01' },
+        ],
+        pagination: { total: 2, limit: 50, offset: 0 },
+      }, schemas.HistoryResponse);
+
+      expect(issues).toEqual([
+        { path: '$.items[1].status', message: "expected one of pending, completed, refunded, got 'lost'" },
+        { path: '$.pagination.hasMore', message: 'missing required field' },
+      ]);
+    });
+
+    it('should reject non-object bodies', () => {
+      expect(findSchemaIssues([], schemas.Balance)).toEqual([
+        { path: '$', message: 'expected object, got array' },
+      ]);
+    });
+  });
+
+  describe('client integration', () => {
+    it('should not validate by default', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ credits: null }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+
+      await expect(client.getBalance()).resolves.toEqual({ credits: null });
+    });
+
+    it('should throw ResponseValidationError in strict mode without retrying', async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ ...validBalance, credits: null }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateResponses: 'strict' });
+      const error = await client.getBalance().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error).toMatchObject({
+        path: '$.credits',
+        status: 200,
+        code: 'invalid_response',
+        issues: [{ path: '$.credits', message: 'expected number, got null' }],
+      });
+      expect((error as Error).message).toBe('Invalid API response at $.credits: expected number, got null');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should validate items of list responses', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        models: [{ id: 'model-1', name: 'Model 1' }],
+      }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateResponses: 'strict' });
+
+      await expect(client.getModels()).rejects.toMatchObject({ path: '$.models[0].description' });
+    });
+
+    it('should warn and return the data in warn mode', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ ...validBalance, credits: null }));
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, logger, validateResponses: 'warn' });
+
+      await expect(client.getBalance()).resolves.toMatchObject({ credits: null });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Invalid API response at $.credits: expected number, got null (GET /v1/balance)',
+        expect.objectContaining({ issues: [{ path: '$.credits', message: 'expected number, got null' }] })
+      );
+    });
+
+    it('should skip endpoints without a response body schema', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ success: true }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateResponses: 'strict' });
+
+      await expect(client.revokeKey('key_123')).resolves.toBeUndefined();
+    });
+  });
+});
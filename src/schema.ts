@@ -0,0 +1,285 @@
+/**
+ * PeerCat SDK Response Schemas
+ *
+ * JSON-schema-like definitions derived from the OpenAPI spec, with a small
+ * validator used by the `validateResponses` option.
+ */
+
+export type SchemaType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Schema for a single value
+ */
+export interface PropertySchema {
+  type: SchemaType | SchemaType[];
+  enum?: string[];
+  /** Required properties (objects) */
+  required?: string[];
+  /** Property schemas (objects) */
+  properties?: Record<string, PropertySchema>;
+  /** Item schema (arrays) */
+  items?: PropertySchema;
+}
+
+/**
+ * Schema for an object at the top level of a response
+ */
+export interface ObjectSchema {
+  required: string[];
+  properties: Record<string, PropertySchema>;
+}
+
+/**
+ * A single schema violation
+ */
+export interface SchemaIssue {
+  /** JSON path of the offending value, e.g. `$.models[0].priceUsd` */
+  path: string;
+  /** What is wrong with it */
+  message: string;
+}
+
+const object = (schema: ObjectSchema): PropertySchema => ({ type: 'object', ...schema });
+
+const Model: ObjectSchema = {
+  required: ['id', 'name', 'description', 'provider', 'maxPromptLength', 'outputFormat', 'outputResolution', 'priceUsd'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    provider: { type: 'string' },
+    maxPromptLength: { type: 'number' },
+    outputFormat: { type: 'string' },
+    outputResolution: { type: 'string' },
+    priceUsd: { type: 'number' },
+  },
+};
+
+const ModelPrice: ObjectSchema = {
+  required: ['model', 'priceUsd', 'priceSol', 'priceSolWithSlippage'],
+  properties: {
+    model: { type: 'string' },
+    priceUsd: { type: 'number' },
+    priceSol: { type: 'number' },
+    priceSolWithSlippage: { type: 'number' },
+  },
+};
+
+const HistoryItem: ObjectSchema = {
+  required: ['id', 'endpoint', 'creditsUsed', 'status', 'createdAt'],
+  properties: {
+    id: { type: 'string' },
+    endpoint: { type: 'string' },
+    model: { type: ['string', 'null'] },
+    creditsUsed: { type: 'number' },
+    requestId: { type: ['string', 'null'] },
+    status: { type: 'string', enum: ['pending', 'completed', 'refunded'] },
+    createdAt: { type: 'string' },
+    completedAt: { type: ['string', 'null'] },
+  },
+};
+
+const ApiKey: ObjectSchema = {
+  required: ['id', 'keyPrefix', 'environment', 'rateLimitTier', 'createdAt', 'revoked'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: ['string', 'null'] },
+    keyPrefix: { type: 'string' },
+    environment: { type: 'string', enum: ['live', 'test'] },
+    rateLimitTier: { type: 'string' },
+    createdAt: { type: 'string' },
+    lastUsedAt: { type: ['string', 'null'] },
+    revoked: { type: 'boolean' },
+  },
+};
+
+/**
+ * Response schemas, keyed by type name
+ */
+export const schemas = {
+  Model,
+  ModelsResponse: {
+    required: ['models'],
+    properties: {
+      models: { type: 'array', items: object(Model) },
+    },
+  },
+  Balance: {
+    required: ['credits', 'totalDeposited', 'totalSpent', 'totalWithdrawn', 'totalGenerated'],
+    properties: {
+      credits: { type: 'number' },
+      totalDeposited: { type: 'number' },
+      totalSpent: { type: 'number' },
+      totalWithdrawn: { type: 'number' },
+      totalGenerated: { type: 'number' },
+    },
+  },
+  GenerateResponse: {
+    required: ['id', 'imageUrl', 'model', 'mode', 'usage'],
+    properties: {
+      id: { type: 'string' },
+      imageUrl: { type: 'string' },
+      ipfsHash: { type: ['string', 'null'] },
+      model: { type: 'string' },
+      mode: { type: 'string', enum: ['production', 'demo'] },
+      usage: {
+        type: 'object',
+        required: ['creditsUsed', 'balanceRemaining'],
+        properties: {
+          creditsUsed: { type: 'number' },
+          balanceRemaining: { type: 'number' },
+        },
+      },
+    },
+  },
+  PriceResponse: {
+    required: ['solPrice', 'updatedAt', 'slippageTolerance', 'treasury', 'models'],
+    properties: {
+      solPrice: { type: 'number' },
+      updatedAt: { type: 'string' },
+      slippageTolerance: { type: 'number' },
+      treasury: { type: 'string' },
+      models: { type: 'array', items: object(ModelPrice) },
+    },
+  },
+  ModelPrice,
+  HistoryItem,
+  HistoryResponse: {
+    required: ['items', 'pagination'],
+    properties: {
+      items: { type: 'array', items: object(HistoryItem) },
+      pagination: {
+        type: 'object',
+        required: ['total', 'limit', 'offset', 'hasMore'],
+        properties: {
+          total: { type: 'number' },
+          limit: { type: 'number' },
+          offset: { type: 'number' },
+          hasMore: { type: 'boolean' },
+        },
+      },
+    },
+  },
+  ApiKey,
+  KeysResponse: {
+    required: ['keys'],
+    properties: {
+      keys: { type: 'array', items: object(ApiKey) },
+    },
+  },
+  SessionToken: {
+    required: ['token', 'expiresAt'],
+    properties: {
+      token: { type: 'string' },
+      expiresAt: { type: 'string' },
+    },
+  },
+  CreateKeyResult: {
+    required: ['id', 'key', 'keyPrefix', 'environment', 'createdAt'],
+    properties: {
+      id: { type: 'string' },
+      key: { type: 'string' },
+      keyPrefix: { type: 'string' },
+      name: { type: ['string', 'null'] },
+      environment: { type: 'string', enum: ['live', 'test'] },
+      createdAt: { type: 'string' },
+      warning: { type: 'string' },
+    },
+  },
+  PromptSubmission: {
+    required: ['submissionId', 'paymentAddress', 'requiredAmount', 'memo', 'expiresAt'],
+    properties: {
+      submissionId: { type: 'string' },
+      promptHash: { type: 'string' },
+      paymentAddress: { type: 'string' },
+      requiredAmount: {
+        type: 'object',
+        required: ['sol', 'lamports', 'usd'],
+        properties: {
+          sol: { type: 'number' },
+          lamports: { type: 'number' },
+          usd: { type: 'number' },
+        },
+      },
+      memo: { type: 'string' },
+      model: { type: 'string' },
+      slippageTolerance: { type: 'number' },
+      expiresAt: { type: 'string' },
+      instructions: { type: 'object' },
+    },
+  },
+  OnChainGenerationStatus: {
+    required: ['txSignature', 'status'],
+    properties: {
+      txSignature: { type: 'string' },
+      status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed', 'refunded'] },
+      model: { type: 'string' },
+      createdAt: { type: 'string' },
+      imageUrl: { type: 'string' },
+      ipfsHash: { type: 'string' },
+      completedAt: { type: 'string' },
+      error: { type: 'string' },
+      message: { type: 'string' },
+    },
+  },
+} satisfies Record<string, ObjectSchema>;
+
+function typeOf(value: unknown): SchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' || type === 'object'
+    ? type
+    : 'undefined';
+}
+
+/**
+ * Check a value against a schema
+ *
+ * @param value - Value to check (usually a parsed response body)
+ * @param schema - Schema to check against
+ * @param path - JSON path of `value` (default: `$`)
+ * @returns Every violation found, empty when the value is valid
+ */
+export function findSchemaIssues(
+  value: unknown,
+  schema: ObjectSchema | PropertySchema,
+  path = '$'
+): SchemaIssue[] {
+  const spec: PropertySchema = 'type' in schema ? schema : object(schema);
+  const types = Array.isArray(spec.type) ? spec.type : [spec.type];
+  const actual = typeOf(value);
+
+  if (!types.includes(actual as SchemaType)) {
+    return [{ path, message: `expected ${types.join(' or ')}, got ${actual}` }];
+  }
+
+  if (spec.enum && typeof value === 'string' && !spec.enum.includes(value)) {
+    return [{ path, message: `expected one of ${spec.enum.join(', ')}, got '${value}'` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (actual === 'object' && (spec.required || spec.properties)) {
+    const record = value as Record<string, unknown>;
+    for (const field of spec.required ?? []) {
+      if (!(field in record)) {
+        issues.push({ path: `${path}.${field}`, message: 'missing required field' });
+      }
+    }
+    for (const [field, fieldSchema] of Object.entries(spec.properties ?? {})) {
+      if (field in record) {
+        issues.push(...findSchemaIssues(record[field], fieldSchema, `${path}.${field}`));
+      }
+    }
+  }
+
+  const items = spec.items;
+  if (actual === 'array' && items) {
+    (value as unknown[]).forEach((item, index) => {
+      issues.push(...findSchemaIssues(item, items, `${path}[${index}]`));
+    });
+  }
+
+  return issues;
+}
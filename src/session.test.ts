@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WalletSession } from './session';
+import { PeerCat } from './client';
+import { PeerCatEmulator } from './emulator';
+import { RequestScheduler } from './scheduler';
+import { AuthenticationError, RequestAbortedError } from './errors';
+import type { WalletSigner } from './wallet';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+const unauthorized = (code = 'session_expired') => createMockResponse({
+  error: { type: 'authentication_error', code, message: 'Not authenticated', param: null },
+}, { ok: false, status: 401 });
+
+function createSigner(): WalletSigner & { signMessage: ReturnType<typeof vi.fn> } {
+  return {
+    publicKey: 'Wa11et58',
+    signMessage: vi.fn(async () => new Uint8Array(64).fill(1)),
+  };
+}
+
+/** Routes POST /v1/sessions to numbered tokens and everything else to `respond` */
+function serveSessions(ttlMs: number, respond: (authorization: string | undefined) => unknown = () => createMockResponse({ keys: [] })) {
+  let issued = 0;
+  mockFetch.mockImplementation(async (url: string, init: { method: string; headers: Record<string, string> }) => {
+    if (url.endsWith('/v1/sessions')) {
+      issued++;
+      return createMockResponse({ token: `sess_${issued}`, expiresAt: new Date(Date.now() + ttlMs).toISOString() });
+    }
+    return respond(init.headers.Authorization);
+  });
+}
+
+function authorizationsOf(path: string): Array<string | undefined> {
+  return mockFetch.mock.calls
+    .filter(([url]) => (url as string).endsWith(path))
+    .map(([, init]) => (init as { headers: Record<string, string> }).headers.Authorization);
+}
+
+describe('WalletSession', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should sign in once and reuse the token', async () => {
+    serveSessions(60 * 60 * 1000);
+    const signer = createSigner();
+    const session = new WalletSession(signer);
+
+    const client = new PeerCat({ apiKey: session, fetch: mockFetch });
+    await client.listKeys();
+    await client.revokeKey('key_1');
+    await client.updateKeyName('key_2', 'CI');
+
+    expect(signer.signMessage).toHaveBeenCalledTimes(1);
+    expect(authorizationsOf('/v1/sessions')).toEqual([undefined]);
+    expect(mockFetch.mock.calls.slice(1).map(([, init]) => init.headers.Authorization))
+      .toEqual(['Bearer sess_1', 'Bearer sess_1', 'Bearer sess_1']);
+    expect(session.expiresAt).toBeGreaterThan(Date.now());
+    expect(client.environment).toBeUndefined();
+  });
+
+  it('should send the signed session message', async () => {
+    serveSessions(60000);
+
+    const client = new PeerCat({ apiKey: new WalletSession(createSigner()), fetch: mockFetch });
+    await client.listKeys();
+
+    const body = JSON.parse(mockFetch.mock.calls[0]![1].body as string);
+    expect(body).toEqual({
+      message: expect.stringMatching(/^PeerCat session request\nWallet: Wa11et58\nNonce: \w+\nIssued At: /),
+      signature: expect.any(String),
+      publicKey: 'Wa11et58',
+    });
+  });
+
+  it('should sign in again shortly before the token expires', async () => {
+    vi.useFakeTimers();
+    serveSessions(60000);
+    const signer = createSigner();
+
+    const client = new PeerCat({ apiKey: new WalletSession(signer, { refreshMargin: 10000 }), fetch: mockFetch });
+    await client.listKeys();
+
+    vi.advanceTimersByTime(49000);
+    await client.listKeys();
+    expect(signer.signMessage).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(2000);
+    await client.listKeys();
+    expect(signer.signMessage).toHaveBeenCalledTimes(2);
+    expect(authorizationsOf('/v1/keys')).toEqual(['Bearer sess_1', 'Bearer sess_1', 'Bearer sess_2']);
+  });
+
+  it('should sign in again when the API rejects the token, outside the retry budget', async () => {
+    serveSessions(60 * 60 * 1000, authorization =>
+      authorization === 'Bearer sess_1' ? unauthorized() : createMockResponse({ keys: [] })
+    );
+    const onRetry = vi.fn();
+
+    const client = new PeerCat({ apiKey: new WalletSession(createSigner()), fetch: mockFetch, maxRetries: 0, hooks: { retry: onRetry } });
+    await client.listKeys();
+
+    expect(authorizationsOf('/v1/keys')).toEqual(['Bearer sess_1', 'Bearer sess_2']);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ reason: 'session_expired', delayMs: 0 }));
+  });
+
+  it('should throw when the fresh token is rejected too', async () => {
+    serveSessions(60 * 60 * 1000, () => unauthorized('insufficient_scope'));
+    const signer = createSigner();
+
+    const client = new PeerCat({ apiKey: new WalletSession(signer), fetch: mockFetch });
+
+    await expect(client.listKeys()).rejects.toThrow(AuthenticationError);
+    expect(signer.signMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail without looping when the signature is rejected', async () => {
+    mockFetch.mockResolvedValue(unauthorized('invalid_signature'));
+    const signer = createSigner();
+
+    const client = new PeerCat({ apiKey: new WalletSession(signer), fetch: mockFetch });
+
+    await expect(client.listKeys()).rejects.toThrow(expect.objectContaining({ code: 'invalid_signature' }));
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(signer.signMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one sign-in between concurrent requests', async () => {
+    serveSessions(60000);
+    const signer = createSigner();
+
+    const client = new PeerCat({ apiKey: new WalletSession(signer), fetch: mockFetch });
+    await Promise.all([client.listKeys(), client.getBalance(), client.revokeKey('key_1')]);
+
+    expect(signer.signMessage).toHaveBeenCalledTimes(1);
+    expect(authorizationsOf('/v1/sessions')).toHaveLength(1);
+  });
+
+  it('should keep a shared sign-in going when one caller aborts', async () => {
+    let respond!: () => void;
+    const signedIn = new Promise<void>(resolve => {
+      respond = resolve;
+    });
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.endsWith('/v1/sessions')) {
+        await signedIn;
+        return createMockResponse({ token: 'sess_1', expiresAt: new Date(Date.now() + 60000).toISOString() });
+      }
+      return createMockResponse({ keys: [] });
+    });
+    const controller = new AbortController();
+
+    const client = new PeerCat({ apiKey: new WalletSession(createSigner()), fetch: mockFetch });
+    const first = client.listKeys({ signal: controller.signal });
+    const second = client.listKeys();
+
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+    respond();
+
+    await expect(first).rejects.toThrow(RequestAbortedError);
+    await expect(second).resolves.toEqual({ keys: [] });
+    expect(authorizationsOf('/v1/sessions')).toHaveLength(1);
+  });
+
+  it('should sign in while the scheduler is at capacity', async () => {
+    serveSessions(60000);
+
+    const client = new PeerCat({
+      apiKey: new WalletSession(createSigner()),
+      fetch: mockFetch,
+      scheduler: new RequestScheduler({ maxConcurrency: 1 }),
+    });
+
+    await expect(client.listKeys()).resolves.toEqual({ keys: [] });
+  });
+
+  it('should renew expired sessions against the emulator', async () => {
+    const emulator = new PeerCatEmulator({ sessionTtl: 200 });
+    const baseUrl = await emulator.start();
+
+    try {
+      const signer = createSigner();
+      const client = new PeerCat({ apiKey: new WalletSession(signer, { refreshMargin: 0 }), baseUrl });
+
+      await client.createKeyWithSigner(signer, { name: 'Backoffice' });
+      const { keys } = await client.listKeys();
+      expect(keys).toEqual([expect.objectContaining({ name: 'Backoffice' })]);
+
+      await new Promise(resolve => setTimeout(resolve, 250));
+      await client.updateKeyName(keys[0]!.id, 'Renamed');
+
+      expect((await emulator.fake.listKeys()).keys[0]).toMatchObject({ name: 'Renamed' });
+      // Key creation signs its own message; the session signed in twice
+      expect(signer.signMessage).toHaveBeenCalledTimes(3);
+    } finally {
+      await emulator.stop();
+    }
+  });
+});
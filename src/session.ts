@@ -0,0 +1,93 @@
+/**
+ * PeerCat SDK Wallet Sessions
+ */
+
+import { encodeBase58 } from './base58';
+import { InFlightRequests } from './dedupe';
+import { buildSessionMessage, signerPublicKey, type WalletSigner } from './wallet';
+import type { CreateSessionParams, SessionToken } from './types';
+
+export interface WalletSessionOptions {
+  /** Time in ms before expiry at which the session is renewed (default: 30000) */
+  refreshMargin?: number;
+}
+
+/**
+ * Exchanges a signed session message for a token; supplied by the client
+ *
+ * `signal` aborts once every request waiting on the sign-in has aborted.
+ */
+export type SessionExchange = (params: CreateSessionParams, signal: AbortSignal) => Promise<SessionToken>;
+
+const DEFAULT_REFRESH_MARGIN = 30000;
+
+/**
+ * Authenticates as a wallet owner instead of with an API key
+ *
+ * The wallet signs a session message, which the client exchanges for a
+ * short-lived token. The token is reused until shortly before it expires,
+ * then the wallet signs again; a token the API rejects early is replaced the
+ * same way. Concurrent requests share one sign-in.
+ *
+ * @example
+ * ```typescript
+ * const session = new WalletSession(Ed25519Signer.fromSecretKey(secretKey));
+ * const client = new PeerCat({ apiKey: session });
+ *
+ * const { keys } = await client.listKeys();
+ * ```
+ */
+export class WalletSession {
+  private readonly signer: WalletSigner;
+  private readonly refreshMargin: number;
+  private readonly signingIn = new InFlightRequests();
+  private token?: string;
+  private expiresAtMs?: number;
+
+  constructor(signer: WalletSigner, options: WalletSessionOptions = {}) {
+    this.signer = signer;
+    this.refreshMargin = options.refreshMargin ?? DEFAULT_REFRESH_MARGIN;
+  }
+
+  /** Base58 public key of the wallet */
+  get publicKey(): string {
+    return signerPublicKey(this.signer);
+  }
+
+  /** Unix timestamp (ms) when the current token expires, or null before the first sign-in */
+  get expiresAt(): number | null {
+    return this.token ? this.expiresAtMs ?? null : null;
+  }
+
+  /**
+   * Get a valid token, signing in when there is none, it is about to expire, or `forceRefresh` is set
+   *
+   * @param signal - Aborts this caller's wait; a shared sign-in carries on for the others
+   */
+  async getToken(exchange: SessionExchange, forceRefresh = false, signal?: AbortSignal): Promise<string> {
+    if (!forceRefresh && this.token && Date.now() < (this.expiresAtMs ?? 0) - this.refreshMargin) {
+      return this.token;
+    }
+
+    return this.signingIn.run('sign-in', signal, shared => this.signIn(exchange, shared));
+  }
+
+  /**
+   * Forget the current token; the next request signs in again
+   */
+  clear(): void {
+    this.token = undefined;
+    this.expiresAtMs = undefined;
+  }
+
+  private async signIn(exchange: SessionExchange, signal: AbortSignal): Promise<string> {
+    const publicKey = this.publicKey;
+    const message = buildSessionMessage({ publicKey });
+    const signature = await this.signer.signMessage(new TextEncoder().encode(message));
+
+    const session = await exchange({ message, signature: encodeBase58(signature), publicKey }, signal);
+    this.token = session.token;
+    this.expiresAtMs = Date.parse(session.expiresAt);
+    return session.token;
+  }
+}
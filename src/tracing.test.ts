@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PeerCat } from './client';
+import { DefaultRetryPolicy } from './retry';
+import { InvalidRequestError } from './errors';
+import {
+  SpanKind,
+  SpanStatusCode,
+  formatTraceparent,
+  type Span,
+  type SpanAttributes,
+  type TraceContext,
+  type Tracer,
+} from './tracing';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+interface FinishedSpan {
+  name: string;
+  kind?: number;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  attributes: SpanAttributes;
+  status: { code: number; message?: string };
+  exceptions: Error[];
+}
+
+// In-memory tracer and exporter, resolving parents the way OpenTelemetry does
+function createInMemoryTracer() {
+  const finished: FinishedSpan[] = [];
+  let nextId = 1;
+  const SPAN_KEY = Symbol.for('OpenTelemetry Context Key SPAN');
+
+  const tracer: Tracer = {
+    startSpan(name, options = {}, context?: TraceContext) {
+      const parent = context?.getValue(SPAN_KEY) as Span | undefined;
+      const traceId = parent?.spanContext().traceId ?? 'a'.repeat(31) + String(nextId);
+      const spanId = String(nextId++).padStart(16, '0');
+      const record: FinishedSpan = {
+        name,
+        kind: options.kind,
+        traceId,
+        spanId,
+        parentSpanId: parent?.spanContext().spanId,
+        attributes: { ...options.attributes },
+        status: { code: SpanStatusCode.UNSET },
+        exceptions: [],
+      };
+      return {
+        spanContext: () => ({ traceId, spanId, traceFlags: 1 }),
+        setAttribute: (key, value) => { record.attributes[key] = value; },
+        setStatus: (status) => { record.status = status; },
+        recordException: (exception) => { record.exceptions.push(exception); },
+        end: () => { finished.push(record); },
+      };
+    },
+  };
+
+  return { tracer, finished };
+}
+
+describe('Tracing', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should create a call span with child attempt spans across retries', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse({
+        error: { type: 'api_error', code: 'bad_gateway', message: 'Bad gateway', param: null },
+      }, { ok: false, status: 502 }))
+      .mockResolvedValueOnce(createMockResponse({
+        id: 'gen_123',
+        model: 'flux-pro',
+        usage: { creditsUsed: 0.05, balanceRemaining: 9.95 },
+      }));
+
+    const { tracer, finished } = createInMemoryTracer();
+    const client = new PeerCat({
+      apiKey: 'test',
+      fetch: mockFetch,
+      tracer,
+      retryPolicy: new DefaultRetryPolicy({ baseDelay: 0 }),
+      validateRequests: false,
+    });
+
+    await client.generate({ prompt: 'test', model: 'flux-pro' });
+
+    expect(finished.map(span => span.name)).toEqual([
+      'POST /v1/generate',
+      'POST /v1/generate',
+      'PeerCat POST /v1/generate',
+    ]);
+    const [failed, succeeded, call] = finished as [FinishedSpan, FinishedSpan, FinishedSpan];
+
+    expect(call.kind).toBe(SpanKind.INTERNAL);
+    expect(call.status.code).toBe(SpanStatusCode.OK);
+    expect(call.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'peercat.endpoint': '/v1/generate',
+      'peercat.model': 'flux-pro',
+      'http.response.status_code': 200,
+      'peercat.credits_used': 0.05,
+      'peercat.attempts': 2,
+    });
+
+    for (const attempt of [failed, succeeded]) {
+      expect(attempt.kind).toBe(SpanKind.CLIENT);
+      expect(attempt.parentSpanId).toBe(call.spanId);
+      expect(attempt.traceId).toBe(call.traceId);
+    }
+
+    expect(failed.status.code).toBe(SpanStatusCode.ERROR);
+    expect(failed.attributes).toMatchObject({
+      'error.type': 'api_error',
+      'peercat.error_code': 'bad_gateway',
+      'http.response.status_code': 502,
+    });
+    expect(failed.exceptions).toHaveLength(1);
+    expect(succeeded.attributes['http.request.resend_count']).toBe(1);
+  });
+
+  it('should propagate the attempt span as a traceparent header', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse({ error: { type: 'api_error', code: 'x', message: 'x', param: null } }, { ok: false, status: 503 }))
+      .mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+    const { tracer, finished } = createInMemoryTracer();
+    const client = new PeerCat({
+      apiKey: 'test',
+      fetch: mockFetch,
+      tracer,
+      retryPolicy: new DefaultRetryPolicy({ baseDelay: 0 }),
+      validateRequests: false,
+    });
+
+    await client.getBalance();
+
+    const sent = mockFetch.mock.calls.map(([, init]) => (init as { headers: Record<string, string> }).headers.traceparent);
+    expect(sent).toEqual([
+      `00-${finished[0]!.traceId}-${finished[0]!.spanId}-01`,
+      `00-${finished[1]!.traceId}-${finished[1]!.spanId}-01`,
+    ]);
+  });
+
+  it('should not override a caller-provided traceparent', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({ credits: 10 }));
+
+    const { tracer } = createInMemoryTracer();
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, tracer });
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    await client.getBalance({ headers: { traceparent } });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ headers: expect.objectContaining({ traceparent }) })
+    );
+  });
+
+  it('should record errors on the call span', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse({
+      error: { type: 'invalid_request_error', code: 'invalid_prompt', message: 'Bad prompt', param: 'prompt' },
+    }, { ok: false, status: 400 }));
+
+    const { tracer, finished } = createInMemoryTracer();
+    const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, tracer, validateRequests: false });
+
+    await expect(client.generate({ prompt: 'test' })).rejects.toThrow(InvalidRequestError);
+
+    const call = finished[finished.length - 1]!;
+    expect(call.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Bad prompt' });
+    expect(call.attributes).toMatchObject({
+      'error.type': 'invalid_request_error',
+      'http.response.status_code': 400,
+      'peercat.attempts': 1,
+    });
+  });
+
+  it('should skip traceparent for non-recording spans', () => {
+    const span: Span = {
+      spanContext: () => ({ traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 0 }),
+      setAttribute: () => undefined,
+      setStatus: () => undefined,
+      recordException: () => undefined,
+      end: () => undefined,
+    };
+
+    expect(formatTraceparent(span)).toBeUndefined();
+  });
+});
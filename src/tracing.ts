@@ -0,0 +1,165 @@
+/**
+ * PeerCat SDK Tracing
+ *
+ * Minimal structural subset of the OpenTelemetry API, so a tracer from
+ * `@opentelemetry/api` can be passed in without the SDK depending on it.
+ */
+
+import { PeerCatError } from './errors';
+import type { HttpMethod } from './types';
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/** Matches OpenTelemetry `SpanKind` */
+export const SpanKind = {
+  INTERNAL: 0,
+  SERVER: 1,
+  CLIENT: 2,
+  PRODUCER: 3,
+  CONSUMER: 4,
+} as const;
+
+/** Matches OpenTelemetry `SpanStatusCode` */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * Identifies a span within a trace
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+/**
+ * Span as used by the client (subset of the OpenTelemetry `Span`)
+ */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * Immutable context carrying the parent span (subset of the OpenTelemetry `Context`)
+ */
+export interface TraceContext {
+  getValue(key: symbol): unknown;
+  setValue(key: symbol, value: unknown): TraceContext;
+  deleteValue(key: symbol): TraceContext;
+}
+
+/**
+ * Creates spans (subset of the OpenTelemetry `Tracer`)
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: SpanAttributes },
+    context?: TraceContext
+  ): Span;
+}
+
+/** Key under which OpenTelemetry stores the active span in a context */
+const SPAN_KEY = Symbol.for('OpenTelemetry Context Key SPAN');
+
+const INVALID_TRACE_ID = '00000000000000000000000000000000';
+
+/**
+ * Context holding only a parent span, used to start attempt spans as
+ * children of the call span
+ */
+class SpanParentContext implements TraceContext {
+  constructor(private readonly values: ReadonlyMap<symbol, unknown> = new Map()) {}
+
+  getValue(key: symbol): unknown {
+    return this.values.get(key);
+  }
+
+  setValue(key: symbol, value: unknown): TraceContext {
+    return new SpanParentContext(new Map(this.values).set(key, value));
+  }
+
+  deleteValue(key: symbol): TraceContext {
+    const values = new Map(this.values);
+    values.delete(key);
+    return new SpanParentContext(values);
+  }
+}
+
+/**
+ * Build a context whose parent span is `span`
+ */
+export function contextWithSpan(span: Span): TraceContext {
+  return new SpanParentContext().setValue(SPAN_KEY, span);
+}
+
+/**
+ * Format a W3C `traceparent` header for a span, or undefined for a
+ * non-recording span with an invalid trace ID
+ */
+export function formatTraceparent(span: Span): string | undefined {
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  if (!traceId || traceId === INVALID_TRACE_ID) {
+    return undefined;
+  }
+  return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Attributes describing an outgoing call
+ */
+export function requestAttributes(method: HttpMethod, path: string, body: unknown): SpanAttributes {
+  const model = (body as { model?: unknown } | undefined)?.model;
+  return {
+    'http.request.method': method,
+    'peercat.endpoint': path.split('?')[0],
+    'peercat.model': typeof model === 'string' ? model : undefined,
+  };
+}
+
+/**
+ * Attributes read from a successful response body
+ */
+export function responseAttributes(status: number, data: unknown): SpanAttributes {
+  const result = data as { model?: unknown; usage?: { creditsUsed?: unknown } } | null;
+  const model = result?.model;
+  const creditsUsed = result?.usage?.creditsUsed;
+  return {
+    'http.response.status_code': status,
+    'peercat.model': typeof model === 'string' ? model : undefined,
+    'peercat.credits_used': typeof creditsUsed === 'number' ? creditsUsed : undefined,
+  };
+}
+
+/**
+ * Set attributes on a span, skipping undefined values
+ */
+export function setAttributes(span: Span, attributes: SpanAttributes): void {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      span.setAttribute(key, value);
+    }
+  }
+}
+
+/**
+ * Mark a span as failed with the given error
+ */
+export function recordError(span: Span, error: Error): void {
+  span.recordException(error);
+  setAttributes(span, {
+    'error.type': error instanceof PeerCatError ? error.type : error.name,
+    'peercat.error_code': error instanceof PeerCatError ? error.code : undefined,
+    'http.response.status_code': error instanceof PeerCatError && error.status > 0 ? error.status : undefined,
+  });
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+}
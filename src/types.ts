@@ -2,19 +2,145 @@
  * PeerCat SDK Types
  */
 
+import type { Middleware } from './middleware';
+import type { RateLimitInfo } from './errors';
+import type { RetryPolicy } from './retry';
+import type { RateLimiter } from './rate-limiter';
+import type { CircuitBreaker } from './circuit-breaker';
+import type { RequestScheduler } from './scheduler';
+import type { PeerCatHooks } from './events';
+import type { Tracer } from './tracing';
+import type { Logger, LogLevel } from './logger';
+import type { ResponseCache } from './cache';
+import type { KeyPool } from './key-pool';
+import type { WalletSession } from './session';
+
 // ============ Configuration ============
 
+/**
+ * Supplies the API key, consulted before every request attempt
+ *
+ * `forceRefresh` is true after the API rejected the previous key; the provider
+ * should bypass any cache and fetch the current key.
+ */
+export type CredentialProvider = (context: { forceRefresh: boolean }) => string | Promise<string>;
+
 export interface PeerCatConfig {
-  /** API key for authentication */
-  apiKey: string;
-  /** Base URL for the API (default: https://api.peerc.at) */
+  /**
+   * API key, a provider returning the current key, a pool of keys, or a wallet
+   * session signing in for short-lived tokens (default: `PEERCAT_API_KEY`)
+   */
+  apiKey?: string | CredentialProvider | KeyPool | WalletSession;
+  /** Base URL for the API (default: `PEERCAT_BASE_URL`, or https://api.peerc.at) */
   baseUrl?: string;
-  /** Request timeout in milliseconds (default: 60000) */
+  /** Request timeout in milliseconds (default: `PEERCAT_TIMEOUT`, or 60000) */
   timeout?: number;
-  /** Number of retry attempts for failed requests (default: 3) */
+  /** Number of retry attempts for failed requests (default: `PEERCAT_MAX_RETRIES`, or 3) */
   maxRetries?: number;
+  /** Accept `pcat_live_` keys when `NODE_ENV` is 'test' (default: false) */
+  allowLiveKeyInTests?: boolean;
+  /** Total time budget in milliseconds across all attempts and backoff (default: none) */
+  deadline?: number;
+  /** Retry decisions and backoff delays (default: DefaultRetryPolicy) */
+  retryPolicy?: RetryPolicy;
+  /** Client-side rate limiter that holds requests back before they hit the server limit */
+  rateLimiter?: RateLimiter;
+  /** Circuit breaker that fails fast during persistent upstream failures */
+  circuitBreaker?: CircuitBreaker;
+  /** Scheduler limiting concurrent calls and queueing the rest by priority */
+  scheduler?: RequestScheduler;
+  /** Cache for getModels() and getPrices() responses */
+  cache?: ResponseCache;
+  /**
+   * Share one in-flight request between identical concurrent GET calls: true for
+   * every endpoint, or a list of path prefixes such as ['/v1/balance'] (default: false)
+   */
+  dedupeRequests?: boolean | string[];
   /** Custom fetch implementation (for Node.js < 18) */
   fetch?: typeof fetch;
+  /** Middleware wrapping every request attempt, outermost first */
+  middleware?: Middleware[];
+  /** Lifecycle event listeners (request, response, retry, error, rateLimited) */
+  hooks?: PeerCatHooks;
+  /** OpenTelemetry-compatible tracer; creates a span per call and per attempt */
+  tracer?: Tracer;
+  /** Structured logger (default: console logger when `PEERCAT_LOG` is set, otherwise none) */
+  logger?: Logger;
+  /** Minimum level to log (default: `PEERCAT_LOG` level, or 'info') */
+  logLevel?: LogLevel;
+  /** Redact prompts from logs (default: true). Keys and signatures are always redacted. */
+  redactPrompts?: boolean;
+  /**
+   * Check response bodies against the API schema: 'off' (default), 'warn' logs
+   * mismatches, 'strict' throws a ResponseValidationError
+   */
+  validateResponses?: ResponseValidationMode;
+  /**
+   * Check prompt, model and mode before sending generate() and submitPrompt()
+   * calls (default: true)
+   *
+   * The first such call loads the model catalog through getModels() (and the
+   * response cache, if configured). If that load fails, model checks are
+   * skipped and prompts are capped at 2000 characters.
+   */
+  validateRequests?: boolean;
+}
+
+export type ResponseValidationMode = 'off' | 'warn' | 'strict';
+
+// ============ Requests ============
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Per-call options accepted by every client method
+ */
+export interface RequestOptions {
+  /** Signal to cancel the call (also stops pending retries and backoff) */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds for this call (default: client `timeout`) */
+  timeout?: number;
+  /** Number of retry attempts for this call (default: client `maxRetries`) */
+  maxRetries?: number;
+  /** Total time budget in milliseconds for this call (default: client `deadline`) */
+  deadline?: number;
+  /** Extra headers to send with this call */
+  headers?: Record<string, string>;
+  /**
+   * Idempotency key for POST calls (default: generated once per call and
+   * reused across retries)
+   */
+  idempotencyKey?: string;
+  /** Scheduling priority when a `scheduler` is configured; higher runs first (default: 0) */
+  priority?: number;
+}
+
+/**
+ * HTTP metadata of a successful call
+ */
+export interface ResponseMeta {
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: Headers;
+  /** Rate limit information from the response headers */
+  rateLimit: RateLimitInfo;
+  /** Server request ID (X-Request-Id header), for support tickets */
+  requestId: string | null;
+  /** Number of attempts made, including the successful one */
+  attempts: number;
+  /** Time from the first attempt to the parsed response, in milliseconds */
+  elapsedMs: number;
+}
+
+/**
+ * Result of a call made through `client.withResponse()`
+ */
+export interface ApiResponse<T> {
+  /** Parsed result, as returned by the regular method */
+  data: T;
+  /** HTTP metadata */
+  response: ResponseMeta;
 }
 
 // ============ Models ============
@@ -107,6 +233,8 @@ export interface GenerateResult {
     /** Remaining credit balance */
     balanceRemaining: number;
   };
+  /** Set by the SDK when the server replayed the result of an earlier call with the same idempotency key */
+  idempotentReplayed?: boolean;
 }
 
 // ============ Balance ============
@@ -177,6 +305,11 @@ export interface CreateKeyParams {
   publicKey: string;
 }
 
+/**
+ * Whether a key spends real credits (`pcat_live_`) or not (`pcat_test_`)
+ */
+export type KeyEnvironment = 'live' | 'test';
+
 export interface ApiKey {
   /** Key ID */
   id: string;
@@ -185,7 +318,7 @@ export interface ApiKey {
   /** Key prefix (for display) */
   keyPrefix: string;
   /** Environment: live or test */
-  environment: 'live' | 'test';
+  environment: KeyEnvironment;
   /** Rate limit tier */
   rateLimitTier: string;
   /** Creation timestamp */
@@ -206,17 +339,37 @@ export interface CreateKeyResult {
   /** Key name */
   name: string | null;
   /** Environment */
-  environment: 'live' | 'test';
+  environment: KeyEnvironment;
   /** Creation timestamp */
   createdAt: string;
   /** Warning message */
   warning: string;
+  /** Set by the SDK when the server replayed the result of an earlier call with the same idempotency key */
+  idempotentReplayed?: boolean;
 }
 
 export interface KeysResponse {
   keys: ApiKey[];
 }
 
+// ============ Sessions ============
+
+export interface CreateSessionParams {
+  /** Message to sign */
+  message: string;
+  /** Wallet signature (base58) */
+  signature: string;
+  /** Wallet public key (base58) */
+  publicKey: string;
+}
+
+export interface SessionToken {
+  /** Bearer token authenticating as the wallet */
+  token: string;
+  /** ISO timestamp after which the token is rejected */
+  expiresAt: string;
+}
+
 // ============ On-Chain Payments ============
 
 export interface SubmitPromptParams {
@@ -253,6 +406,8 @@ export interface PromptSubmission {
   expiresAt: string;
   /** Payment instructions */
   instructions: Record<string, string>;
+  /** Set by the SDK when the server replayed the result of an earlier call with the same idempotency key */
+  idempotentReplayed?: boolean;
 }
 
 export interface OnChainGenerationStatus {
@@ -276,6 +431,27 @@ export interface OnChainGenerationStatus {
   message?: string;
 }
 
+// ============ Client ============
+
+/**
+ * PeerCat API operations, implemented by `PeerCat` and `FakePeerCat`
+ *
+ * Depend on this interface in application code so tests can swap in the fake.
+ */
+export interface PeerCatClient {
+  generate(params: GenerateParams, options?: RequestOptions): Promise<GenerateResult>;
+  getModels(options?: RequestOptions): Promise<Model[]>;
+  getPrices(options?: RequestOptions): Promise<PriceResponse>;
+  getBalance(options?: RequestOptions): Promise<Balance>;
+  getHistory(params?: HistoryParams, options?: RequestOptions): Promise<HistoryResponse>;
+  createKey(params: CreateKeyParams, options?: RequestOptions): Promise<CreateKeyResult>;
+  listKeys(options?: RequestOptions): Promise<KeysResponse>;
+  revokeKey(keyId: string, options?: RequestOptions): Promise<void>;
+  updateKeyName(keyId: string, name: string, options?: RequestOptions): Promise<void>;
+  submitPrompt(params: SubmitPromptParams, options?: RequestOptions): Promise<PromptSubmission>;
+  getOnChainStatus(txSignature: string, options?: RequestOptions): Promise<OnChainGenerationStatus>;
+}
+
 // ============ Errors ============
 
 export interface ApiErrorResponse {
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PeerCat } from './client';
+import { ResponseCache } from './cache';
+import { InvalidRequestError } from './errors';
+import { validatePromptRequest } from './validation';
+import type { Model } from './types';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+// Helper to create mock response with headers
+function createMockResponse(data: unknown, options: { ok?: boolean; status?: number; headers?: Record<string, string> } = {}) {
+  const { ok = true, status = 200, headers = {} } = options;
+  const mockHeaders = new Map(Object.entries(headers));
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: (name: string) => mockHeaders.get(name) ?? null,
+    },
+  };
+}
+
+function createModel(id: string, maxPromptLength: number): Model {
+  return {
+    id,
+    name: id,
+    description: '',
+    provider: 'test',
+    maxPromptLength,
+    outputFormat: 'png',
+    outputResolution: '1024x1024',
+    priceUsd: 0.1,
+  };
+}
+
+const catalog = new Map([
+  ['stable-diffusion-xl', createModel('stable-diffusion-xl', 2000)],
+  ['imagen-4.0-generate-001', createModel('imagen-4.0-generate-001', 500)],
+]);
+
+function rejectionOf(fn: () => void): InvalidRequestError {
+  try {
+    fn();
+  } catch (error) {
+    return error as InvalidRequestError;
+  }
+  throw new Error('Expected validation to fail');
+}
+
+describe('Request Validation', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('validatePromptRequest', () => {
+    it('should accept valid requests', () => {
+      expect(() => validatePromptRequest({ prompt: 'A red fox', mode: 'demo' })).not.toThrow();
+      expect(() => validatePromptRequest({ prompt: 'A red fox', model: 'imagen-4.0-generate-001' }, catalog)).not.toThrow();
+    });
+
+    it('should reject empty prompts', () => {
+      const error = rejectionOf(() => validatePromptRequest({ prompt: '   ' }));
+
+      expect(error).toBeInstanceOf(InvalidRequestError);
+      expect(error.param).toBe('prompt');
+      expect(error.code).toBe('invalid_prompt');
+    });
+
+    it('should apply the documented limit without a catalog', () => {
+      expect(() => validatePromptRequest({ prompt: 'x'.repeat(2000) })).not.toThrow();
+
+      const error = rejectionOf(() => validatePromptRequest({ prompt: 'x'.repeat(2001) }));
+      expect(error.param).toBe('prompt');
+      expect(error.code).toBe('prompt_too_long');
+    });
+
+    it('should apply the model limit from the catalog', () => {
+      const error = rejectionOf(() => validatePromptRequest(
+        { prompt: 'x'.repeat(501), model: 'imagen-4.0-generate-001' },
+        catalog
+      ));
+
+      expect(error.param).toBe('prompt');
+      expect(error.message).toContain('maximum for imagen-4.0-generate-001 is 500');
+    });
+
+    it('should reject models missing from the catalog', () => {
+      const error = rejectionOf(() => validatePromptRequest({ prompt: 'test', model: 'dall-e' }, catalog));
+
+      expect(error.param).toBe('model');
+      expect(error.code).toBe('invalid_model');
+    });
+
+    it('should not check models without a catalog', () => {
+      expect(() => validatePromptRequest({ prompt: 'test', model: 'dall-e' })).not.toThrow();
+    });
+
+    it('should reject unknown modes', () => {
+      const error = rejectionOf(() => validatePromptRequest({ prompt: 'test', mode: 'preview' }));
+
+      expect(error.param).toBe('mode');
+      expect(error.code).toBe('invalid_mode');
+    });
+  });
+
+  describe('client integration', () => {
+    it('should reject invalid generate() calls without sending them', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ models: [...catalog.values()] }));
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+
+      await expect(client.generate({ prompt: '' })).rejects.toThrow(InvalidRequestError);
+      await expect(client.submitPrompt({ prompt: 'x'.repeat(2001) })).rejects.toMatchObject({ param: 'prompt' });
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual(['https://api.peerc.at/v1/models']);
+    });
+
+    it('should load the catalog once on first use', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ models: [...catalog.values()] }))
+        .mockResolvedValue(createMockResponse({ id: 'gen_123' }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+
+      await Promise.all([
+        expect(client.generate({ prompt: 'test', model: 'dall-e' })).rejects.toMatchObject({ param: 'model' }),
+        expect(client.submitPrompt({ prompt: 'x'.repeat(600), model: 'imagen-4.0-generate-001' }))
+          .rejects.toMatchObject({ param: 'prompt' }),
+      ]);
+      await client.generate({ prompt: 'test', model: 'imagen-4.0-generate-001' });
+
+      expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+        'https://api.peerc.at/v1/models',
+        'https://api.peerc.at/v1/generate',
+      ]);
+    });
+
+    it('should send the request when the catalog cannot be loaded', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({
+          error: { type: 'api_error', code: 'internal_error', message: 'Internal error', param: null },
+        }, { ok: false, status: 500 }))
+        .mockResolvedValue(createMockResponse({ id: 'gen_123' }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, maxRetries: 0 });
+
+      await expect(client.generate({ prompt: 'test', model: 'dall-e' })).resolves.toEqual({ id: 'gen_123' });
+      await expect(client.generate({ prompt: 'x'.repeat(2001) })).rejects.toMatchObject({ param: 'prompt' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should load the catalog through the response cache', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ models: [...catalog.values()] }));
+      const cache = new ResponseCache();
+
+      await new PeerCat({ apiKey: 'test', fetch: mockFetch, cache }).getModels();
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, cache });
+
+      await expect(client.generate({ prompt: 'test', model: 'dall-e' })).rejects.toMatchObject({ param: 'model' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the catalog from getModels()', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ models: [...catalog.values()] }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      await client.getModels();
+
+      await expect(client.generate({ prompt: 'test', model: 'dall-e' })).rejects.toMatchObject({ param: 'model' });
+      await expect(client.generate({ prompt: 'x'.repeat(600), model: 'imagen-4.0-generate-001' }))
+        .rejects.toMatchObject({ param: 'prompt' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip validation when validateRequests is false', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'gen_123' }));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch, validateRequests: false });
+
+      await expect(client.generate({ prompt: 'x'.repeat(3000) })).resolves.toEqual({ id: 'gen_123' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
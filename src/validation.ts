@@ -0,0 +1,66 @@
+/**
+ * PeerCat SDK Request Validation
+ *
+ * Pre-flight checks that reject invalid generation requests before they
+ * cost a network round trip.
+ */
+
+import { InvalidRequestError } from './errors';
+import type { Model, ModelId } from './types';
+
+/** Documented maximum prompt length when the model's own limit is unknown */
+export const DEFAULT_MAX_PROMPT_LENGTH = 2000;
+
+/** Model used by the API when none is given */
+export const DEFAULT_MODEL: ModelId = 'stable-diffusion-xl';
+
+const GENERATION_MODES = ['production', 'demo'];
+
+/**
+ * Parameters shared by `generate()` and `submitPrompt()`
+ */
+export interface PromptRequest {
+  prompt: string;
+  model?: ModelId;
+  mode?: string;
+}
+
+/**
+ * Check prompt, model and mode against the model catalog
+ *
+ * @param params - Request parameters
+ * @param catalog - Known models by ID, if the catalog has been fetched
+ * @throws InvalidRequestError naming the offending `param`
+ */
+export function validatePromptRequest(params: PromptRequest, catalog?: ReadonlyMap<string, Model>): void {
+  const { prompt, model, mode } = params;
+
+  if (typeof prompt !== 'string' || prompt.trim().length === 0) {
+    throw new InvalidRequestError('Prompt must be a non-empty string', 'invalid_prompt', 'prompt');
+  }
+
+  if (model !== undefined && catalog && !catalog.has(model)) {
+    throw new InvalidRequestError(
+      `Unknown model '${model}'. Available models: ${[...catalog.keys()].join(', ')}`,
+      'invalid_model',
+      'model'
+    );
+  }
+
+  const maxLength = catalog?.get(model ?? DEFAULT_MODEL)?.maxPromptLength ?? DEFAULT_MAX_PROMPT_LENGTH;
+  if (prompt.length > maxLength) {
+    throw new InvalidRequestError(
+      `Prompt is ${prompt.length} characters; the maximum for ${model ?? DEFAULT_MODEL} is ${maxLength}`,
+      'prompt_too_long',
+      'prompt'
+    );
+  }
+
+  if (mode !== undefined && !GENERATION_MODES.includes(mode)) {
+    throw new InvalidRequestError(
+      `Invalid mode '${mode}'. Expected one of: ${GENERATION_MODES.join(', ')}`,
+      'invalid_mode',
+      'mode'
+    );
+  }
+}
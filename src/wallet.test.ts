@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPublicKey, verify } from 'node:crypto';
+import { Ed25519Signer, buildKeyCreationMessage, signerPublicKey, type WalletSigner } from './wallet';
+import { decodeBase58, encodeBase58 } from './base58';
+import { PeerCat } from './client';
+import { InvalidRequestError } from './errors';
+
+// Mock fetch
+const mockFetch = vi.fn();
+
+function createMockResponse(data: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(data),
+    headers: {
+      get: () => null,
+    },
+  };
+}
+
+const hex = (value: string) => Uint8Array.from(value.match(/../g) ?? [], byte => parseInt(byte, 16));
+
+// RFC 8032 Ed25519 test vector 1
+const SEED = hex('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60');
+const PUBLIC_KEY = hex('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+const EMPTY_MESSAGE_SIGNATURE = hex(
+  'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b'
+);
+const SECRET_KEY = Uint8Array.from([...SEED, ...PUBLIC_KEY]);
+
+function verifySignature(message: string, signature: string, publicKey: string): boolean {
+  const spki = Buffer.concat([Buffer.from('302a300506032b6570032100', 'hex'), decodeBase58(publicKey)]);
+  return verify(
+    null,
+    Buffer.from(message),
+    createPublicKey({ key: spki, format: 'der', type: 'spki' }),
+    decodeBase58(signature)
+  );
+}
+
+describe('Wallet Signing', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe('buildKeyCreationMessage', () => {
+    it('should build the canonical message', () => {
+      const message = buildKeyCreationMessage({
+        publicKey: 'FVen3X669xLzsi6N2V91DoiyzHzg1uAgqiT8jZ9nS96Z',
+        nonce: 'abc123',
+        issuedAt: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      expect(message).toBe([
+        'PeerCat API key request',
+        'Wallet: FVen3X669xLzsi6N2V91DoiyzHzg1uAgqiT8jZ9nS96Z',
+        'Nonce: abc123',
+        'Issued At: 2024-01-01T00:00:00.000Z',
+      ].join('\n'));
+    });
+
+    it('should use a fresh random nonce by default', () => {
+      const nonce = (message: string) => /^Nonce: (\w+)$/m.exec(message)?.[1];
+
+      const first = nonce(buildKeyCreationMessage({ publicKey: 'pub' }));
+      const second = nonce(buildKeyCreationMessage({ publicKey: 'pub' }));
+
+      expect(first).toMatch(/^[1-9A-HJ-NP-Za-km-z]{20,24}$/);
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('Ed25519Signer', () => {
+    it('should produce RFC 8032 signatures', async () => {
+      const signer = Ed25519Signer.fromSecretKey(SECRET_KEY);
+
+      expect(signer.publicKey).toBe(encodeBase58(PUBLIC_KEY));
+      expect(await signer.signMessage(new Uint8Array())).toEqual(EMPTY_MESSAGE_SIGNATURE);
+    });
+
+    it('should accept number arrays and base58 secret keys', () => {
+      expect(Ed25519Signer.fromSecretKey([...SECRET_KEY]).publicKey).toBe(encodeBase58(PUBLIC_KEY));
+      expect(Ed25519Signer.fromSecretKey(encodeBase58(SECRET_KEY)).publicKey).toBe(encodeBase58(PUBLIC_KEY));
+    });
+
+    it('should reject keys of the wrong length', () => {
+      expect(() => Ed25519Signer.fromSecretKey(SEED)).toThrow(InvalidRequestError);
+      expect(() => Ed25519Signer.fromSecretKey(SEED)).toThrow('Solana secret key must be 64 bytes, got 32');
+    });
+
+    it('should reject a public key half that does not match the seed', async () => {
+      const mismatched = Uint8Array.from(SECRET_KEY);
+      mismatched[63] ^= 1;
+
+      await expect(Ed25519Signer.fromSecretKey(mismatched).signMessage(new Uint8Array([1])))
+        .rejects.toMatchObject({ code: 'invalid_secret_key' });
+    });
+  });
+
+  describe('signerPublicKey', () => {
+    it('should accept wallet adapter public keys', () => {
+      const signer: WalletSigner = {
+        publicKey: { toBase58: () => 'AdapterKey' },
+        signMessage: async () => new Uint8Array(64),
+      };
+
+      expect(signerPublicKey(signer)).toBe('AdapterKey');
+    });
+  });
+
+  describe('createKeyWithSigner', () => {
+    it('should sign the key creation message and create the key', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({
+        id: 'key_123',
+        key: 'pcat_test_new',
+        keyPrefix: 'pcat_test_ne',
+        name: 'CI',
+        environment: 'test',
+        createdAt: '2024-01-01T00:00:00Z',
+        warning: 'Store this key securely.',
+      }));
+      const signer = Ed25519Signer.fromSecretKey(SECRET_KEY);
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      const result = await client.createKeyWithSigner(signer, { name: 'CI' });
+
+      expect(result.key).toBe('pcat_test_new');
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(mockFetch.mock.calls[0]![0]).toBe('https://api.peerc.at/v1/keys');
+      expect(body).toMatchObject({ name: 'CI', publicKey: signer.publicKey });
+      expect(body.message).toContain(`Wallet: ${signer.publicKey}`);
+      expect(verifySignature(body.message, body.signature, body.publicKey)).toBe(true);
+    });
+
+    it('should work with any WalletSigner', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ id: 'key_123' }));
+      const signMessage = vi.fn(async () => Uint8Array.from([0, 0, 1]));
+
+      const client = new PeerCat({ apiKey: 'test', fetch: mockFetch });
+      await client.createKeyWithSigner({ publicKey: { toBase58: () => 'AdapterKey' }, signMessage });
+
+      const body = JSON.parse(mockFetch.mock.calls[0]![1].body);
+      expect(new TextDecoder().decode(signMessage.mock.calls[0]![0] as unknown as Uint8Array)).toBe(body.message);
+      expect(body).toMatchObject({ publicKey: 'AdapterKey', signature: '112' });
+      expect(body).not.toHaveProperty('name');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * PeerCat SDK Wallet Signing
+ *
+ * Builds and signs the wallet messages that authorize `createKey()` and sessions.
+ */
+
+import { decodeBase58, encodeBase58 } from './base58';
+import { InvalidRequestError } from './errors';
+
+/**
+ * Signs messages with a Solana wallet
+ *
+ * Compatible with Solana wallet adapters, whose `publicKey` is a `PublicKey`
+ * and whose `signMessage()` returns the detached Ed25519 signature.
+ */
+export interface WalletSigner {
+  /** Wallet public key, base58 or an object with `toBase58()` */
+  publicKey: string | { toBase58(): string };
+  /** Sign `message`, returning the 64-byte Ed25519 signature */
+  signMessage(message: Uint8Array): Uint8Array | Promise<Uint8Array>;
+}
+
+export interface KeyCreationMessageParams {
+  /** Wallet public key (base58) */
+  publicKey: string;
+  /** Single-use random value (default: 16 random bytes, base58) */
+  nonce?: string;
+  /** Time the message was issued (default: now) */
+  issuedAt?: Date;
+}
+
+/** PKCS#8 DER prefix for an Ed25519 private key; the 32-byte seed follows */
+const ED25519_PKCS8_PREFIX = Uint8Array.from([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20,
+]);
+
+/**
+ * Build the canonical message a wallet signs to create an API key
+ *
+ * @example
+ * ```text
+ * PeerCat API key request
+ * Wallet: 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU
+ * Nonce: 5Hd8Hq9XbT1fGrLk3bM2aZ
+ * Issued At: 2024-01-01T00:00:00.000Z
+ * ```
+ */
+export function buildKeyCreationMessage(params: KeyCreationMessageParams): string {
+  return buildWalletMessage('PeerCat API key request', params);
+}
+
+/**
+ * Build the canonical message a wallet signs to open a session
+ *
+ * Same fields as `buildKeyCreationMessage()`, headed `PeerCat session request`.
+ */
+export function buildSessionMessage(params: KeyCreationMessageParams): string {
+  return buildWalletMessage('PeerCat session request', params);
+}
+
+/**
+ * Base58 public key of a signer
+ */
+export function signerPublicKey(signer: WalletSigner): string {
+  return typeof signer.publicKey === 'string' ? signer.publicKey : signer.publicKey.toBase58();
+}
+
+/**
+ * Ed25519 signer from a Solana secret key, using Node.js crypto
+ *
+ * @example
+ * ```typescript
+ * // The 64-byte array in a Solana CLI keypair file, or its base58 form
+ * const signer = Ed25519Signer.fromSecretKey(JSON.parse(fs.readFileSync('id.json', 'utf8')));
+ * await client.createKeyWithSigner(signer, { name: 'CI' });
+ * ```
+ */
+export class Ed25519Signer implements WalletSigner {
+  readonly publicKey: string;
+  private readonly seed: Uint8Array;
+
+  private constructor(seed: Uint8Array, publicKey: Uint8Array) {
+    this.seed = seed;
+    this.publicKey = encodeBase58(publicKey);
+  }
+
+  /**
+   * Create a signer from a 64-byte Solana secret key (32-byte seed followed by the public key)
+   *
+   * @param secretKey - Bytes, a number array as in Solana keypair files, or base58
+   * @throws InvalidRequestError if the key is not 64 bytes
+   */
+  static fromSecretKey(secretKey: Uint8Array | number[] | string): Ed25519Signer {
+    const bytes = typeof secretKey === 'string' ? decodeBase58(secretKey) : Uint8Array.from(secretKey);
+    if (bytes.length !== 64) {
+      throw new InvalidRequestError(
+        `Solana secret key must be 64 bytes, got ${bytes.length}`,
+        'invalid_secret_key',
+        'secretKey'
+      );
+    }
+    return new Ed25519Signer(bytes.slice(0, 32), bytes.slice(32));
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    // Loaded on demand so the SDK still bundles for browsers
+    const crypto = await import('node:crypto');
+
+    const privateKey = crypto.createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, this.seed]),
+      format: 'der',
+      type: 'pkcs8',
+    });
+
+    // A mismatched public key would produce signatures the API rejects
+    const derived = crypto.createPublicKey(privateKey).export({ format: 'der', type: 'spki' }).subarray(-32);
+    if (encodeBase58(derived) !== this.publicKey) {
+      throw new InvalidRequestError(
+        'Secret key does not match its public key half',
+        'invalid_secret_key',
+        'secretKey'
+      );
+    }
+
+    return new Uint8Array(crypto.sign(null, message, privateKey));
+  }
+}
+
+function buildWalletMessage(title: string, params: KeyCreationMessageParams): string {
+  const nonce = params.nonce ?? encodeBase58(randomBytes(16));
+  const issuedAt = (params.issuedAt ?? new Date()).toISOString();
+
+  return [
+    title,
+    `Wallet: ${params.publicKey}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join('\n');
+}
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  const webCrypto = (globalThis as { crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array } }).crypto;
+  if (webCrypto?.getRandomValues) {
+    return webCrypto.getRandomValues(bytes);
+  }
+
+  // Fallback for runtimes without Web Crypto
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return bytes;
+}